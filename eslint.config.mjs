@@ -1,5 +1,16 @@
 import { generateEslintConfig } from '@companion-module/tools/eslint/config.mjs'
 
-export default generateEslintConfig({
+const baseConfig = await generateEslintConfig({
 	enableTypescript: true,
 })
+
+export default [
+	...baseConfig,
+	{
+		// Tests run from the source tree only — they may import devDependencies
+		files: ['src/**/__tests__/*'],
+		rules: {
+			'n/no-unpublished-import': 'off',
+		},
+	},
+]
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest'
+import { stepValue, toggleValue } from '../actions.js'
+
+const dropdown = {
+	type: 'dropdown',
+	id: 'value',
+	choices: [
+		{ id: 0, label: 'Off' },
+		{ id: 2, label: 'Low' },
+		{ id: 5, label: 'High' },
+	],
+}
+const number = { type: 'number', id: 'value', min: 0, max: 60, step: 10 }
+const checkbox = { type: 'checkbox', id: 'value' }
+
+describe('stepValue', () => {
+	it('moves to the neighbouring choice in schema order', () => {
+		expect(stepValue(2, { direction: 'next' }, dropdown)).toBe(5)
+		expect(stepValue(2, { direction: 'previous' }, dropdown)).toBe(0)
+	})
+
+	it('stops at either end of the choices unless wrap-around is on', () => {
+		expect(stepValue(5, { direction: 'next', wrap: false }, dropdown)).toBeUndefined()
+		expect(stepValue(0, { direction: 'previous', wrap: false }, dropdown)).toBeUndefined()
+		expect(stepValue(5, { direction: 'next', wrap: true }, dropdown)).toBe(0)
+		expect(stepValue(0, { direction: 'previous', wrap: true }, dropdown)).toBe(5)
+	})
+
+	it('moves a value that is not one of the choices to the first or last choice', () => {
+		expect(stepValue(3, { direction: 'next' }, dropdown)).toBe(0)
+		expect(stepValue(3, { direction: 'previous' }, dropdown)).toBe(5)
+	})
+
+	it('steps a number by its step, within min and max', () => {
+		expect(stepValue(30, { direction: 'next' }, number)).toBe(40)
+		expect(stepValue(30, { direction: 'previous' }, number)).toBe(20)
+		expect(stepValue(60, { direction: 'next' }, number)).toBeUndefined()
+		expect(stepValue(0, { direction: 'previous' }, number)).toBeUndefined()
+		expect(stepValue(60, { direction: 'next', wrap: true }, number)).toBe(0)
+		expect(stepValue(0, { direction: 'previous', wrap: true }, number)).toBe(60)
+	})
+
+	it('never steps a number past min or max from an uneven value', () => {
+		expect(stepValue(55, { direction: 'next' }, number)).toBeUndefined()
+		expect(stepValue(5, { direction: 'previous' }, number)).toBeUndefined()
+	})
+
+	it('falls back to single steps between 0 and 255 without limits in the schema', () => {
+		expect(stepValue(254, { direction: 'next' }, { type: 'number' })).toBe(255)
+		expect(stepValue(255, { direction: 'next' }, { type: 'number' })).toBeUndefined()
+	})
+})
+
+describe('toggleValue', () => {
+	it('sends the other of the two values', () => {
+		expect(toggleValue(2, { valueA: 2, valueB: 5 }, dropdown)).toBe(5)
+		expect(toggleValue(5, { valueA: 2, valueB: 5 }, dropdown)).toBe(2)
+	})
+
+	it('sends Value A while the current value is unknown or neither of the two', () => {
+		expect(toggleValue(undefined, { valueA: 2, valueB: 5 }, dropdown)).toBe(2)
+		expect(toggleValue(0, { valueA: 2, valueB: 5 }, dropdown)).toBe(2)
+	})
+
+	it('inverts a checkbox', () => {
+		expect(toggleValue(1, {}, checkbox)).toBe(false)
+		expect(toggleValue(0, {}, checkbox)).toBe(true)
+		expect(toggleValue(undefined, {}, checkbox)).toBe(true)
+	})
+})
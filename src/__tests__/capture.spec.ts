@@ -0,0 +1,132 @@
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { PacketCapture, readCaptureFile } from '../capture.js'
+
+let dir: string
+
+beforeEach(() => {
+	dir = fs.mkdtempSync(path.join(os.tmpdir(), 'studio-tech-capture-'))
+})
+
+afterEach(() => {
+	fs.rmSync(dir, { recursive: true, force: true })
+})
+
+/** An IPv4 + UDP datagram around a payload, as another capture tool would record it */
+function ipv4Udp(src: string, srcPort: number, dst: string, dstPort: number, payload: Buffer, protocol = 17): Buffer {
+	const ip = Buffer.alloc(20)
+	ip[0] = 0x45
+	ip.writeUInt16BE(28 + payload.length, 2)
+	ip[8] = 64
+	ip[9] = protocol
+	Buffer.from(src.split('.').map(Number)).copy(ip, 12)
+	Buffer.from(dst.split('.').map(Number)).copy(ip, 16)
+	const udp = Buffer.alloc(8)
+	udp.writeUInt16BE(srcPort, 0)
+	udp.writeUInt16BE(dstPort, 2)
+	udp.writeUInt16BE(8 + payload.length, 4)
+	return Buffer.concat([ip, udp, payload])
+}
+
+/** A classic pcap file with one record per frame */
+function pcapFile(linkType: number, frames: Buffer[], littleEndian = true): Buffer {
+	const u32 = (value: number) => {
+		const buf = Buffer.alloc(4)
+		if (littleEndian) buf.writeUInt32LE(value)
+		else buf.writeUInt32BE(value)
+		return buf
+	}
+	const u16 = (value: number) => {
+		const buf = Buffer.alloc(2)
+		if (littleEndian) buf.writeUInt16LE(value)
+		else buf.writeUInt16BE(value)
+		return buf
+	}
+	const header = Buffer.concat([u32(0xa1b2c3d4), u16(2), u16(4), u32(0), u32(0), u32(65535), u32(linkType)])
+	const records = frames.map((frame) => Buffer.concat([u32(0), u32(0), u32(frame.length), u32(frame.length), frame]))
+	return Buffer.concat([header, ...records])
+}
+
+describe('PacketCapture', () => {
+	it('writes a pcapng file that reads back with addresses, ports and direction', async () => {
+		const file = path.join(dir, 'round-trip.pcapng')
+		const capture = new PacketCapture(file)
+		const request = Buffer.from('ffff0020000100000000', 'hex')
+		const reply = Buffer.from('53747564696f2d545a8900', 'hex') // odd length, so the block is padded
+		capture.record('out', request, { address: '0.0.0.0', port: 8702 }, { address: '192.168.20.15', port: 8700 })
+		capture.record('in', reply, { address: '192.168.20.15', port: 8700 }, { address: '0.0.0.0', port: 8702 })
+		expect(capture.packetCount).toBe(2)
+		await capture.close()
+
+		expect(readCaptureFile(file)).toEqual([
+			{
+				src: { address: '0.0.0.0', port: 8702 },
+				dst: { address: '192.168.20.15', port: 8700 },
+				payload: request,
+				direction: 'out',
+			},
+			{
+				src: { address: '192.168.20.15', port: 8700 },
+				dst: { address: '0.0.0.0', port: 8702 },
+				payload: reply,
+				direction: 'in',
+			},
+		])
+	})
+
+	it('ignores packets recorded after close', async () => {
+		const file = path.join(dir, 'closed.pcapng')
+		const capture = new PacketCapture(file)
+		await capture.close()
+		capture.record('in', Buffer.from([1]), { address: '10.0.0.1', port: 1 }, { address: '10.0.0.2', port: 2 })
+
+		expect(capture.packetCount).toBe(0)
+		expect(readCaptureFile(file)).toEqual([])
+	})
+})
+
+describe('readCaptureFile', () => {
+	const payload = Buffer.from('53747564696f2d545a8900', 'hex')
+
+	it('reads UDP datagrams from an Ethernet pcap, through VLAN tags, skipping other traffic', () => {
+		const ethernet = (etherType: number, body: Buffer) => {
+			const head = Buffer.alloc(14)
+			head.writeUInt16BE(etherType, 12)
+			return Buffer.concat([head, body])
+		}
+		const vlanTag = Buffer.from([0x00, 0x14, 0x08, 0x00]) // VLAN 20, then IPv4
+		const file = path.join(dir, 'ethernet.pcap')
+		fs.writeFileSync(
+			file,
+			pcapFile(1, [
+				ethernet(0x0800, ipv4Udp('192.168.20.15', 8700, '192.168.20.5', 8702, payload)),
+				ethernet(0x0800, ipv4Udp('192.168.20.15', 80, '192.168.20.5', 50000, payload, 6)), // TCP
+				ethernet(0x86dd, Buffer.alloc(40)), // IPv6
+				ethernet(0x8100, Buffer.concat([vlanTag, ipv4Udp('192.168.20.16', 8700, '192.168.20.5', 8702, payload)])),
+			]),
+		)
+
+		expect(readCaptureFile(file)).toEqual([
+			{ src: { address: '192.168.20.15', port: 8700 }, dst: { address: '192.168.20.5', port: 8702 }, payload },
+			{ src: { address: '192.168.20.16', port: 8700 }, dst: { address: '192.168.20.5', port: 8702 }, payload },
+		])
+	})
+
+	it('reads a big-endian raw IP pcap', () => {
+		const file = path.join(dir, 'raw.pcap')
+		fs.writeFileSync(file, pcapFile(101, [ipv4Udp('10.0.0.2', 8700, '10.0.0.1', 8702, payload)], false))
+
+		expect(readCaptureFile(file)).toEqual([
+			{ src: { address: '10.0.0.2', port: 8700 }, dst: { address: '10.0.0.1', port: 8702 }, payload },
+		])
+	})
+
+	it('rejects a file that is neither pcap nor pcapng', () => {
+		const file = path.join(dir, 'notes.txt')
+		fs.writeFileSync(file, 'ff ff 00 20 00 01 00 00 00 00 00 00')
+
+		expect(() => readCaptureFile(file)).toThrow('Not a pcap or pcapng file')
+	})
+})
@@ -0,0 +1,138 @@
+import dgram from 'dgram'
+import os from 'os'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { MAX_SWEEP_ADDRESSES, getMacForDestination, getMacForLocalAddress, parseSweepTargets } from '../dante.js'
+
+/** A machine with loopback, one wired NIC and a virtual adapter that reports no MAC */
+const INTERFACES: NodeJS.Dict<os.NetworkInterfaceInfo[]> = {
+	lo: [
+		{
+			address: '127.0.0.1',
+			netmask: '255.0.0.0',
+			family: 'IPv4',
+			mac: '00:00:00:00:00:00',
+			internal: true,
+			cidr: '127.0.0.1/8',
+		},
+	],
+	eth0: [
+		{
+			address: '192.168.20.5',
+			netmask: '255.255.255.0',
+			family: 'IPv4',
+			mac: '00:1d:c1:9b:a6:cd',
+			internal: false,
+			cidr: '192.168.20.5/24',
+		},
+	],
+	tun0: [
+		{
+			address: '10.8.0.2',
+			netmask: '255.255.255.0',
+			family: 'IPv4',
+			mac: '00:00:00:00:00:00',
+			internal: false,
+			cidr: '10.8.0.2/24',
+		},
+	],
+}
+
+afterEach(() => {
+	vi.restoreAllMocks()
+})
+
+describe('getMacForLocalAddress', () => {
+	it('returns the MAC bytes of the interface that owns the address', () => {
+		vi.spyOn(os, 'networkInterfaces').mockReturnValue(INTERFACES)
+		expect(getMacForLocalAddress('192.168.20.5')).toEqual([0x00, 0x1d, 0xc1, 0x9b, 0xa6, 0xcd])
+	})
+
+	it('returns null for an interface without a MAC, loopback or an unknown address', () => {
+		vi.spyOn(os, 'networkInterfaces').mockReturnValue(INTERFACES)
+		expect(getMacForLocalAddress('10.8.0.2')).toBeNull()
+		expect(getMacForLocalAddress('127.0.0.1')).toBeNull()
+		expect(getMacForLocalAddress('192.168.99.1')).toBeNull()
+	})
+})
+
+/** Makes the OS pick localAddr as the source address for any destination */
+function routeFrom(localAddr: string): void {
+	const socket = {
+		once: () => socket,
+		connect: (_port: number, _address: string, callback: () => void) => callback(),
+		address: () => ({ address: localAddr, family: 'IPv4', port: 50000 }),
+		close: () => undefined,
+	}
+	vi.spyOn(dgram, 'createSocket').mockReturnValue(socket as unknown as dgram.Socket)
+}
+
+describe('getMacForDestination', () => {
+	it('uses the MAC of the interface the OS routes through', async () => {
+		vi.spyOn(os, 'networkInterfaces').mockReturnValue(INTERFACES)
+		routeFrom('192.168.20.5')
+		await expect(getMacForDestination('192.168.20.40')).resolves.toEqual([0x00, 0x1d, 0xc1, 0x9b, 0xa6, 0xcd])
+	})
+
+	it('falls back to the first local MAC for a loopback destination', async () => {
+		vi.spyOn(os, 'networkInterfaces').mockReturnValue(INTERFACES)
+		await expect(getMacForDestination('127.0.0.1')).resolves.toEqual([0x00, 0x1d, 0xc1, 0x9b, 0xa6, 0xcd])
+	})
+
+	it('rejects when the routed interface has no MAC', async () => {
+		vi.spyOn(os, 'networkInterfaces').mockReturnValue(INTERFACES)
+		routeFrom('10.8.0.2')
+		await expect(getMacForDestination('10.8.0.1')).rejects.toThrow('No interface found for local address 10.8.0.2')
+	})
+})
+
+describe('parseSweepTargets', () => {
+	it('keeps single addresses', () => {
+		expect(parseSweepTargets('192.168.20.15')).toEqual(['192.168.20.15'])
+	})
+
+	it('skips the network and broadcast address of a CIDR block', () => {
+		const ips = parseSweepTargets('192.168.20.0/24')
+		expect(ips).toHaveLength(254)
+		expect(ips[0]).toBe('192.168.20.1')
+		expect(ips[ips.length - 1]).toBe('192.168.20.254')
+	})
+
+	it('aligns a CIDR block to its network', () => {
+		expect(parseSweepTargets('10.0.0.77/30')).toEqual(['10.0.0.77', '10.0.0.78'])
+	})
+
+	it('keeps every address of a /31 and /32', () => {
+		expect(parseSweepTargets('10.0.0.4/31')).toEqual(['10.0.0.4', '10.0.0.5'])
+		expect(parseSweepTargets('10.0.0.4/32')).toEqual(['10.0.0.4'])
+	})
+
+	it('expands full and last-octet ranges inclusively', () => {
+		expect(parseSweepTargets('10.0.0.250-10.0.1.1')).toEqual([
+			'10.0.0.250',
+			'10.0.0.251',
+			'10.0.0.252',
+			'10.0.0.253',
+			'10.0.0.254',
+			'10.0.0.255',
+			'10.0.1.0',
+			'10.0.1.1',
+		])
+		expect(parseSweepTargets('10.0.0.5-7')).toEqual(['10.0.0.5', '10.0.0.6', '10.0.0.7'])
+	})
+
+	it('splits on commas, semicolons and whitespace and removes duplicates', () => {
+		expect(parseSweepTargets('10.0.0.1, 10.0.0.2;10.0.0.1\n10.0.0.1-2')).toEqual(['10.0.0.1', '10.0.0.2'])
+	})
+
+	it('skips invalid entries and empty ranges', () => {
+		expect(parseSweepTargets('10.0.0.256 10.0.0.0/33 host.local 10.0.0.9-3 10.0.0.1')).toEqual(['10.0.0.1'])
+		expect(parseSweepTargets('')).toEqual([])
+	})
+
+	it(`caps the result at ${MAX_SWEEP_ADDRESSES} addresses`, () => {
+		const ips = parseSweepTargets('10.0.0.0/16')
+		expect(ips).toHaveLength(MAX_SWEEP_ADDRESSES)
+		expect(ips[0]).toBe('10.0.0.1')
+		expect(ips[MAX_SWEEP_ADDRESSES - 1]).toBe('10.0.16.0')
+	})
+})
@@ -1,14 +1,53 @@
 import ModuleInstance from './main.js'
-import { buildActions } from './build-commands.js'
+import { buildActions, buildDeviceOption, STEP_ACTION_SUFFIX, TOGGLE_ACTION_SUFFIX } from './build-commands.js'
 import { getDevicesFolder, getDeviceSchema, getDeviceSchemas, reloadDeviceSchemas } from './config.js'
 import { parseSettingId, getNormalizedSchemas } from './types.js'
 import { createModuleLogger } from '@companion-module/base'
+import os from 'os'
 import path from 'path'
 
 import { parseGetAllSettingsWithDetection, saveModelJsonPretty, updateModelJsonFromSettings } from './settingsParser.js'
 
 const logger = createModuleLogger('Actions')
 
+/**
+ * Value a toggle action sends: the other of its two values, or the opposite of
+ * a checkbox. An unknown current value counts as not being at Value A.
+ */
+export function toggleValue(current: number | undefined, options: any, valueOption: any): number | boolean {
+	if (valueOption?.type === 'checkbox') return !current
+	return current === Number(options['valueA']) ? options['valueB'] : options['valueA']
+}
+
+/**
+ * Value a next/previous action sends: the neighbouring choice in schema order,
+ * or one step up or down for a number. Returns undefined past either end when
+ * wrap-around is off. A value that isn't one of the choices moves to the first
+ * (next) or last (previous) choice.
+ */
+export function stepValue(current: number, options: any, valueOption: any): number | undefined {
+	const delta = options['direction'] === 'previous' ? -1 : 1
+	const wrap = options['wrap'] === true
+
+	if (valueOption?.type === 'dropdown') {
+		const ids: number[] = (valueOption.choices ?? []).map((c: any) => c.id)
+		const index = ids.indexOf(current)
+		let next = index === -1 ? (delta > 0 ? 0 : ids.length - 1) : index + delta
+		if (next < 0 || next >= ids.length) {
+			if (!wrap) return undefined
+			next = (next + ids.length) % ids.length
+		}
+		return ids[next]
+	}
+
+	const min = valueOption?.min ?? 0
+	const max = valueOption?.max ?? 255
+	const next = current + delta * (valueOption?.step ?? 1)
+	if (next > max) return wrap ? min : undefined
+	if (next < min) return wrap ? max : undefined
+	return next
+}
+
 export function UpdateActions(self: ModuleInstance): void {
 	const schemasRaw = getDeviceSchemas()
 	const rawActions = buildActions()
@@ -16,17 +55,32 @@ export function UpdateActions(self: ModuleInstance): void {
 	const wiredActions: any = {}
 
 	const activeModel = self.activeModel
+	const extraDevices = self.extraDevices
+
+	// Models with at least one controlled device — the main one plus any additional devices
+	const managedModels = new Set([activeModel, ...extraDevices.map((d) => d.model)])
+
+	// Targets the right device for the Device option, or logs why the action can't run
+	const targetIp = (event: any): string => {
+		const ip = self.resolveDeviceIp(event.options['device'])
+		if (!ip) logger.warn(`Device ${event.options['device'] || '(configured)'} is not available — action skipped`)
+		return ip
+	}
 
 	// ---------------------------------------------
 	// ✅ GLOBAL: GET ALL SETTINGS (AUTO JSON UPDATE)
 	// ---------------------------------------------
 
+	// Works on any controlled device — the callback picks the schema by the device's model
+	const anyDeviceOption = buildDeviceOption(undefined, activeModel, extraDevices)
+
 	wiredActions['global_getAllSettings'] = {
 		name: 'GLOBAL: Get All Settings (Auto-Update JSON)',
-		options: [],
-		callback: async () => {
-			const model = activeModel
-			const ip = self.host
+		options: anyDeviceOption ? [anyDeviceOption] : [],
+		callback: async (event: any) => {
+			const ip = targetIp(event)
+			if (!ip) return
+			const model = extraDevices.find((d) => d.ip === ip)?.model ?? activeModel
 
 			const buf = await self.stController.requestAllSettings(ip)
 
@@ -68,27 +122,85 @@ export function UpdateActions(self: ModuleInstance): void {
 	}
 
 	// ---------------------------------------------
-	// ✅ BUILD PER-SETTING ACTIONS (FILTERED BY ACTIVE MODEL)
+	// ✅ GLOBAL: PACKET CAPTURE (PCAPNG)
+	// ---------------------------------------------
+
+	wiredActions['global_captureStart'] = {
+		name: 'GLOBAL: Start Packet Capture',
+		description: 'Records all Studio-T and Dante traffic to a pcapng file that opens in Wireshark',
+		options: [
+			{
+				type: 'textinput',
+				id: 'filePath',
+				label: 'Capture File',
+				default: '',
+				tooltip: 'Full path of the .pcapng file to write. Leave empty for a timestamped file in your home folder.',
+			},
+		],
+		callback: async (event: any) => {
+			const requested = String(event.options['filePath'] ?? '').trim()
+			const filePath =
+				requested || path.join(os.homedir(), `studio-tech-${new Date().toISOString().replace(/[:.]/g, '-')}.pcapng`)
+			await self.stController.startCapture(filePath)
+		},
+	}
+
+	wiredActions['global_captureStop'] = {
+		name: 'GLOBAL: Stop Packet Capture',
+		options: [],
+		callback: async () => {
+			const filePath = await self.stController.stopCapture()
+			if (!filePath) logger.info('No packet capture running')
+		},
+	}
+
+	// ---------------------------------------------
+	// ✅ BUILD PER-SETTING ACTIONS (FILTERED BY CONTROLLED MODELS)
 	// ---------------------------------------------
 
 	for (const [actionId, action] of Object.entries(rawActions)) {
 		const { model, cmdId, baseId } = parseSettingId(actionId)
 
-		// Only include actions for the currently active model
-		if (model !== activeModel) continue
+		// Only include actions for models this instance controls
+		if (!managedModels.has(model)) continue
+		if (!action) continue
 
 		// Get the raw action schema to access fixed busCh value
 		const schema = schemas[model]
 		const rawAction = schema?.cmdSchema?.find((a: any) => a.cmd_id === cmdId && a.id === baseId)
+		const valueOption = rawAction?.options?.find((o: any) => o.id === 'value')
+		const toggle = actionId.endsWith(TOGGLE_ACTION_SUFFIX)
+		const step = actionId.endsWith(STEP_ACTION_SUFFIX)
+
+		const deviceOption = buildDeviceOption(model, activeModel, extraDevices)
 
 		wiredActions[actionId] = {
 			...action,
+			options: deviceOption ? [deviceOption, ...action.options] : action.options,
 			callback: async (event: any) => {
-				const ip = self.host
+				const ip = targetIp(event)
+				if (!ip) return
 				const busCh = event.options['busCh'] !== undefined ? event.options['busCh'] : rawAction?.busCh
-				const value = event.options['value']
 				const idAdd = event.options['idAdd'] ?? 0
 				const settingId = baseId + idAdd
+				let value = event.options['value']
+
+				// Toggle and next/previous work out what to send from the value the device last reported
+				if (toggle || step) {
+					const current = self.stController.getSettingValue(ip, cmdId, settingId, busCh)
+					if (toggle) value = toggleValue(current, event.options, valueOption)
+					else if (current === undefined) {
+						logger.warn(`${rawAction?.name ?? actionId} on ${ip} has no known value yet — action skipped`)
+						return
+					} else {
+						value = stepValue(current, event.options, valueOption)
+						if (value === undefined) {
+							const end = event.options['direction'] === 'previous' ? 'first' : 'last'
+							logger.debug(`${rawAction?.name ?? actionId} on ${ip} is already at its ${end} value`)
+							return
+						}
+					}
+				}
 
 				await self.stController.sendAwaitAck(cmdId, busCh, settingId, value, ip)
 			},
@@ -96,21 +208,24 @@ export function UpdateActions(self: ModuleInstance): void {
 	}
 
 	// ---------------------------------------------
-	// ✅ MIC KILL (ONLY IF ACTIVE MODEL SUPPORTS IT)
+	// ✅ MIC KILL (ONLY IF A CONTROLLED MODEL SUPPORTS IT)
 	// ---------------------------------------------
-	const activeSchema = schemas[activeModel]
-	if (activeSchema) {
-		const supportsMicKill = (activeSchema.cmdSchema ?? []).some((a: any) => a.name.includes('Kill'))
+	for (const model of managedModels) {
+		const modelSchema = schemas[model]
+		if (!modelSchema) continue
+		const supportsMicKill = (modelSchema.cmdSchema ?? []).some((a: any) => a.name.includes('Kill'))
 
 		if (supportsMicKill) {
-			const actionId = `${activeModel}_micKill`
+			const actionId = `${model}_micKill`
+			const deviceOption = buildDeviceOption(model, activeModel, extraDevices)
 
 			wiredActions[actionId] = {
-				name: `[Model${activeModel}] Mic Kill`,
-				options: [],
-				callback: async () => {
-					const ip = self.host
-					logger.info(`Mic Kill → Model ${activeModel} @ ${ip}`)
+				name: `[Model${model}] Mic Kill`,
+				options: deviceOption ? [deviceOption] : [],
+				callback: async (event: any) => {
+					const ip = targetIp(event)
+					if (!ip) return
+					logger.info(`Mic Kill → Model ${model} @ ${ip}`)
 					await self.stController.globalMicKill(ip)
 					await self.stController.requestAllSettings(ip).catch((err) => {
 						logger.warn(`Failed to refresh settings after command: ${err}`)
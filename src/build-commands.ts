@@ -8,8 +8,9 @@ import {
 	CompanionActionDefinitions,
 	CompanionActionDefinition,
 	CompanionFeedbackDefinitions,
+	combineRgb,
 } from '@companion-module/base'
-import { makeSettingId } from './types.js'
+import { makeSettingId, type DeviceInfo } from './types.js'
 import { getDeviceSchemas } from './config.js'
 
 /* ----------------------------- */
@@ -51,10 +52,63 @@ function buildOption(o: any): any {
 	}
 }
 
+/**
+ * Device selector for instances that control additional devices. '' targets the
+ * main device; other choices are the additional devices of this model, by MAC.
+ * With no model (for actions that work on any device) every device is listed.
+ * Returns undefined when there is nothing to choose between.
+ */
+export function buildDeviceOption(model: string | undefined, activeModel: string, extraDevices: DeviceInfo[]): any {
+	const includesMain = model === undefined || model === activeModel
+	const choices = [
+		...(includesMain ? [{ id: '', label: 'Configured device' }] : []),
+		...extraDevices
+			.filter((d) => (model === undefined || d.model === model) && d.mac)
+			.map((d) => ({ id: d.mac!, label: `Model ${d.model} [${d.mac}] @ ${d.ip}` })),
+	]
+	if (choices.length === 0 || (choices.length === 1 && includesMain)) return undefined
+
+	return {
+		type: 'dropdown',
+		id: 'device',
+		label: 'Device',
+		default: choices[0].id,
+		choices,
+	}
+}
+
 /* ----------------------------- */
 /* --------- Actions ----------- */
 /* ----------------------------- */
 
+/** Suffix of the action that flips a setting between two values */
+export const TOGGLE_ACTION_SUFFIX = '_toggle'
+
+/** Suffix of the action that moves a setting to its next or previous value */
+export const STEP_ACTION_SUFFIX = '_step'
+
+/**
+ * Options for choosing the two values a toggle flips between — dropdowns for
+ * choices, numbers for numeric settings. Checkboxes need none: they flip Off/On.
+ */
+function buildToggleOptions(valueOption: any): any[] {
+	if (valueOption?.type === 'dropdown' && Array.isArray(valueOption.choices)) {
+		const choices = valueOption.choices
+		return [
+			{ type: 'dropdown', id: 'valueA', label: 'Value A', default: choices[0]?.id ?? 0, choices },
+			{ type: 'dropdown', id: 'valueB', label: 'Value B', default: (choices[1] ?? choices[0])?.id ?? 0, choices },
+		]
+	}
+	if (valueOption?.type === 'number') {
+		const range = { min: valueOption.min ?? 0, max: valueOption.max ?? 255, step: valueOption.step ?? 1 }
+		return [
+			{ type: 'number', id: 'valueA', label: 'Value A', default: range.min, ...range },
+			{ type: 'number', id: 'valueB', label: 'Value B', default: range.max, ...range },
+		]
+	}
+	return []
+}
+
 export function buildActions(): CompanionActionDefinitions {
 	const schemas = getDeviceSchemas()
 	const actions: CompanionActionDefinitions = {}
@@ -80,6 +134,57 @@ export function buildActions(): CompanionActionDefinitions {
 			}
 
 			actions[actionId] = action
+
+			// Toggle and next/previous work from the current value, so they need a known set of values
+			const valueOption = (a.options ?? []).find((o: any) => o.id === 'value')
+			const channelOptions = options.filter((opt: any) => opt.id !== 'value')
+			const hasChoices = valueOption?.type === 'dropdown' && Array.isArray(valueOption.choices)
+
+			if (hasChoices || valueOption?.type === 'number' || valueOption?.type === 'checkbox') {
+				actions[`${actionId}${TOGGLE_ACTION_SUFFIX}`] = {
+					name: `[Model${model}] ${a.name} — Toggle`,
+					description:
+						valueOption.type === 'checkbox'
+							? 'Turns the setting off if it is on, otherwise on'
+							: 'Sets Value B if the setting is at Value A, otherwise Value A',
+					options: [...buildToggleOptions(valueOption), ...channelOptions],
+					callback: async () => {
+						/* wired later in UpdateActions */
+					},
+				}
+			}
+
+			if (hasChoices || valueOption?.type === 'number') {
+				actions[`${actionId}${STEP_ACTION_SUFFIX}`] = {
+					name: `[Model${model}] ${a.name} — Next/Previous`,
+					description: hasChoices
+						? 'Moves the setting to the next or previous choice, in the order listed'
+						: 'Raises or lowers the setting by one step',
+					options: [
+						{
+							type: 'dropdown',
+							id: 'direction',
+							label: 'Direction',
+							default: 'next',
+							choices: [
+								{ id: 'next', label: 'Next' },
+								{ id: 'previous', label: 'Previous' },
+							],
+						},
+						{
+							type: 'checkbox',
+							id: 'wrap',
+							label: 'Wrap Around',
+							default: false,
+							tooltip: 'Continue from the other end after the last (or first) value',
+						},
+						...channelOptions,
+					],
+					callback: async () => {
+						/* wired later in UpdateActions */
+					},
+				}
+			}
 		}
 	}
 
@@ -90,6 +195,85 @@ export function buildActions(): CompanionActionDefinitions {
 /* --------- Feedbacks --------- */
 /* ----------------------------- */
 
+/** Suffix of the boolean "setting matches" feedback next to each value feedback */
+export const MATCH_FEEDBACK_SUFFIX = '_match'
+
+/** Suffix of the advanced feedback that paints buttons with an RGB colour setting */
+export const COLOR_FEEDBACK_SUFFIX = '_color'
+
+/** Feedback IDs to re-check when the setting with this base key changes */
+export function feedbackIdsForSetting(baseFeedbackId: string): string[] {
+	return [baseFeedbackId, `${baseFeedbackId}${MATCH_FEEDBACK_SUFFIX}`, `${baseFeedbackId}${COLOR_FEEDBACK_SUFFIX}`]
+}
+
+/**
+ * Operator, value and value-set options for a boolean feedback. The value option
+ * follows the schema's: choices stay a dropdown (and become a multi-select for
+ * "is one of"), checkboxes become Off/On, anything else is entered as a number.
+ */
+function buildMatchOptions(valueOption: any): any[] {
+	const single = `$(options:operator) != 'in'`
+	const multiple = `$(options:operator) == 'in'`
+
+	let choices: { id: number; label: string }[] | undefined
+	if (valueOption?.type === 'dropdown' && Array.isArray(valueOption.choices)) choices = valueOption.choices
+	else if (valueOption?.type === 'checkbox') {
+		choices = [
+			{ id: 0, label: 'Off' },
+			{ id: 1, label: 'On' },
+		]
+	}
+
+	const operator = {
+		type: 'dropdown',
+		id: 'operator',
+		label: 'Operator',
+		default: 'eq',
+		choices: [
+			{ id: 'eq', label: '=' },
+			{ id: 'ne', label: '≠' },
+			{ id: 'gt', label: '>' },
+			{ id: 'lt', label: '<' },
+			{ id: 'in', label: 'is one of' },
+		],
+	}
+
+	if (choices) {
+		return [
+			operator,
+			{
+				type: 'dropdown',
+				id: 'value',
+				label: 'Value',
+				default: choices[0]?.id ?? 0,
+				choices,
+				isVisibleExpression: single,
+			},
+			{ type: 'multidropdown', id: 'values', label: 'Values', default: [], choices, isVisibleExpression: multiple },
+		]
+	}
+
+	return [
+		operator,
+		{
+			type: 'number',
+			id: 'value',
+			label: 'Value',
+			default: typeof valueOption?.default === 'number' ? valueOption.default : 0,
+			min: valueOption?.min ?? 0,
+			max: valueOption?.max ?? 0xffffff,
+			isVisibleExpression: single,
+		},
+		{
+			type: 'textinput',
+			id: 'values',
+			label: 'Values (comma separated)',
+			default: '',
+			isVisibleExpression: multiple,
+		},
+	]
+}
+
 export function buildFeedbacks(): CompanionFeedbackDefinitions {
 	const schemas = getDeviceSchemas()
 	const feedbacks: CompanionFeedbackDefinitions = {}
@@ -128,6 +312,53 @@ export function buildFeedbacks(): CompanionFeedbackDefinitions {
 			}
 
 			feedbacks[baseFeedbackId] = valueFeedback
+
+			// Boolean feedback for styling buttons when the setting matches a value
+			const valueOption = (setting.options ?? []).find((o: any) => o.id === 'value')
+			const matchFeedback: any = {
+				type: 'boolean',
+				name: `[Model${model}] ${setting.name} — Matches`,
+				defaultStyle: {
+					bgcolor: combineRgb(255, 0, 0),
+					color: combineRgb(255, 255, 255),
+				},
+				options: [...buildMatchOptions(valueOption), ...valueOptions.filter((opt: any) => opt.id !== 'showLabel')],
+				callback: () => {
+					/* wired later in UpdateFeedbacks */
+					return false
+				},
+			}
+
+			feedbacks[`${baseFeedbackId}${MATCH_FEEDBACK_SUFFIX}`] = matchFeedback
+
+			// Advanced feedback for RGB colour settings — paints the button in the device's colour
+			if (valueOption?.type === 'colorpicker') {
+				const colorFeedback: any = {
+					type: 'advanced',
+					name: `[Model${model}] ${setting.name} — Button Colour`,
+					description: 'Sets the button to the colour currently configured on the device',
+					options: [
+						{
+							type: 'dropdown',
+							id: 'paint',
+							label: 'Apply To',
+							default: 'bgcolor',
+							choices: [
+								{ id: 'bgcolor', label: 'Background' },
+								{ id: 'color', label: 'Text' },
+								{ id: 'contrast', label: 'Background, with contrasting text' },
+							],
+						},
+						...valueOptions.filter((opt: any) => opt.id !== 'showLabel'),
+					],
+					callback: () => {
+						/* wired later in UpdateFeedbacks */
+						return {}
+					},
+				}
+
+				feedbacks[`${baseFeedbackId}${COLOR_FEEDBACK_SUFFIX}`] = colorFeedback
+			}
 		}
 	}
 
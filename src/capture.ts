@@ -0,0 +1,333 @@
+import fs from 'fs'
+import { createModuleLogger } from '@companion-module/base'
+
+const logger = createModuleLogger('Capture')
+
+/** Direction of a captured packet, relative to this module */
+export type CaptureDirection = 'in' | 'out'
+
+/** One end of a UDP exchange */
+export type Endpoint = { address: string; port: number }
+
+/** Signature shared by everything that feeds packets to a capture */
+export type PacketRecorder = (direction: CaptureDirection, msg: Buffer, src: Endpoint, dst: Endpoint) => void
+
+// ─── pcapng Constants ─────────────────────────────────────────────────────────
+const BLOCK_SHB = 0x0a0d0d0a // Section Header Block
+const BLOCK_IDB = 0x00000001 // Interface Description Block
+const BLOCK_EPB = 0x00000006 // Enhanced Packet Block
+const BYTE_ORDER_MAGIC = 0x1a2b3c4d
+const LINKTYPE_RAW = 101 // Packets start at the IPv4 header
+const OPT_ENDOFOPT = 0
+const OPT_EPB_FLAGS = 2 // Bits 0-1: 01 = inbound, 10 = outbound
+const OPT_IF_NAME = 2
+const OPT_SHB_USERAPPL = 4
+
+/**
+ * Writes UDP payloads to a pcapng file that Wireshark opens directly.
+ *
+ * The module only ever sees UDP payloads, so each record gets a synthesized
+ * IPv4 + UDP header carrying the real addresses and ports (a local address the
+ * socket API doesn't expose is written as 0.0.0.0). Direction goes in the
+ * Enhanced Packet Block flags, timestamps are microseconds since the epoch.
+ */
+export class PacketCapture {
+	readonly filePath: string
+	private stream: fs.WriteStream
+	private count = 0
+	private closed = false
+
+	constructor(filePath: string) {
+		this.filePath = filePath
+		this.stream = fs.createWriteStream(filePath)
+		this.stream.on('error', (err) => {
+			logger.warn(`Capture to ${filePath} failed: ${err.message}`)
+			this.closed = true
+		})
+		this.stream.write(PacketCapture.sectionHeader())
+		this.stream.write(PacketCapture.interfaceDescription())
+	}
+
+	/** Number of packets written so far. */
+	get packetCount(): number {
+		return this.count
+	}
+
+	/** Appends one UDP packet; ignored once the capture is closed. */
+	record(direction: CaptureDirection, msg: Buffer, src: Endpoint, dst: Endpoint): void {
+		if (this.closed) return
+		const ip = PacketCapture.ipv4Udp(msg, src, dst)
+		const micros = BigInt(Math.round((performance.timeOrigin + performance.now()) * 1000))
+		const flags = direction === 'in' ? 0x1 : 0x2
+
+		const body = Buffer.alloc(20)
+		body.writeUInt32LE(0, 0) // interface id
+		body.writeUInt32LE(Number(micros >> 32n), 4)
+		body.writeUInt32LE(Number(micros & 0xffffffffn), 8)
+		body.writeUInt32LE(ip.length, 12) // captured length
+		body.writeUInt32LE(ip.length, 16) // original length
+
+		const options = Buffer.concat([PacketCapture.option(OPT_EPB_FLAGS, uint32LE(flags)), endOfOptions()])
+		this.stream.write(PacketCapture.block(BLOCK_EPB, Buffer.concat([body, pad4(ip), options])))
+		this.count++
+	}
+
+	/** Flushes and closes the file. Safe to call more than once. */
+	async close(): Promise<void> {
+		this.closed = true
+		if (this.stream.destroyed || this.stream.writableEnded) return
+		return new Promise<void>((resolve) => {
+			this.stream.end(() => resolve())
+		})
+	}
+
+	/** Wraps a block body with its type and the leading/trailing total length. */
+	private static block(type: number, body: Buffer): Buffer {
+		const total = 12 + body.length
+		const head = Buffer.alloc(8)
+		head.writeUInt32LE(type, 0)
+		head.writeUInt32LE(total, 4)
+		return Buffer.concat([head, body, uint32LE(total)])
+	}
+
+	private static option(code: number, value: Buffer): Buffer {
+		const head = Buffer.alloc(4)
+		head.writeUInt16LE(code, 0)
+		head.writeUInt16LE(value.length, 2)
+		return Buffer.concat([head, pad4(value)])
+	}
+
+	private static sectionHeader(): Buffer {
+		const body = Buffer.alloc(16)
+		body.writeUInt32LE(BYTE_ORDER_MAGIC, 0)
+		body.writeUInt16LE(1, 4) // major version
+		body.writeUInt16LE(0, 6) // minor version
+		body.writeBigInt64LE(-1n, 8) // section length not specified
+		const options = Buffer.concat([
+			PacketCapture.option(OPT_SHB_USERAPPL, Buffer.from('companion-module-studio-tech', 'utf8')),
+			endOfOptions(),
+		])
+		return PacketCapture.block(BLOCK_SHB, Buffer.concat([body, options]))
+	}
+
+	private static interfaceDescription(): Buffer {
+		const body = Buffer.alloc(8)
+		body.writeUInt16LE(LINKTYPE_RAW, 0)
+		body.writeUInt16LE(0, 2) // reserved
+		body.writeUInt32LE(0, 4) // snaplen: no limit
+		const options = Buffer.concat([
+			PacketCapture.option(OPT_IF_NAME, Buffer.from('studio-tech', 'utf8')),
+			endOfOptions(),
+		])
+		return PacketCapture.block(BLOCK_IDB, Buffer.concat([body, options]))
+	}
+
+	/** Builds an IPv4 + UDP datagram around a payload (UDP checksum left as 0 — optional for IPv4). */
+	private static ipv4Udp(payload: Buffer, src: Endpoint, dst: Endpoint): Buffer {
+		const udpLen = 8 + payload.length
+		const totalLen = 20 + udpLen
+
+		const ip = Buffer.alloc(20)
+		ip[0] = 0x45 // version 4, 5-word header
+		ip.writeUInt16BE(totalLen, 2)
+		ip[8] = 64 // TTL
+		ip[9] = 17 // UDP
+		ipv4Bytes(src.address).copy(ip, 12)
+		ipv4Bytes(dst.address).copy(ip, 16)
+		ip.writeUInt16BE(ipv4Checksum(ip), 10)
+
+		const udp = Buffer.alloc(8)
+		udp.writeUInt16BE(src.port, 0)
+		udp.writeUInt16BE(dst.port, 2)
+		udp.writeUInt16BE(udpLen, 4)
+
+		return Buffer.concat([ip, udp, payload])
+	}
+}
+
+function uint32LE(value: number): Buffer {
+	const buf = Buffer.alloc(4)
+	buf.writeUInt32LE(value, 0)
+	return buf
+}
+
+function endOfOptions(): Buffer {
+	const buf = Buffer.alloc(4)
+	buf.writeUInt16LE(OPT_ENDOFOPT, 0)
+	return buf
+}
+
+/** Pads a buffer with zeros to a 32-bit boundary, as pcapng requires. */
+function pad4(buf: Buffer): Buffer {
+	const rem = buf.length % 4
+	return rem === 0 ? buf : Buffer.concat([buf, Buffer.alloc(4 - rem)])
+}
+
+function ipv4Bytes(address: string): Buffer {
+	const octets = address.split('.').map((o) => parseInt(o, 10))
+	if (octets.length !== 4 || octets.some((o) => Number.isNaN(o) || o < 0 || o > 255)) return Buffer.alloc(4)
+	return Buffer.from(octets)
+}
+
+function ipv4Checksum(header: Buffer): number {
+	let sum = 0
+	for (let i = 0; i < header.length; i += 2) sum += header.readUInt16BE(i)
+	while (sum > 0xffff) sum = (sum & 0xffff) + (sum >> 16)
+	return ~sum & 0xffff
+}
+
+// ─── Capture File Reader ──────────────────────────────────────────────────────
+
+/** One UDP datagram read back from a capture file */
+export type CapturedPacket = {
+	src: Endpoint
+	dst: Endpoint
+	payload: Buffer
+	direction?: CaptureDirection // Only known for pcapng files that record it (e.g. ours)
+}
+
+const LINKTYPE_NULL = 0
+const LINKTYPE_ETHERNET = 1
+const LINKTYPE_LINUX_SLL = 113
+const LINKTYPE_IPV4 = 228
+const LINKTYPE_LINUX_SLL2 = 276
+const BLOCK_SPB = 0x00000003 // Simple Packet Block
+
+/**
+ * Reads every IPv4/UDP datagram from a pcap or pcapng file (Ethernet, raw IP,
+ * Linux cooked and loopback link types). Other traffic is skipped.
+ */
+export function readCaptureFile(filePath: string): CapturedPacket[] {
+	const buf = fs.readFileSync(filePath)
+	if (buf.length >= 4 && buf.readUInt32LE(0) === BLOCK_SHB) return readPcapng(buf)
+	return readPcap(buf)
+}
+
+function readPcap(buf: Buffer): CapturedPacket[] {
+	if (buf.length < 24) throw new Error('File is too short to be a pcap capture')
+	const magic = buf.readUInt32LE(0)
+	let le: boolean
+	if (magic === 0xa1b2c3d4 || magic === 0xa1b23c4d) le = true
+	else if (magic === 0xd4c3b2a1 || magic === 0x4d3cb2a1) le = false
+	else throw new Error(`Not a pcap or pcapng file (magic ${magic.toString(16)})`)
+
+	const u32 = (offset: number) => (le ? buf.readUInt32LE(offset) : buf.readUInt32BE(offset))
+	const linkType = u32(20) & 0xffff
+
+	const packets: CapturedPacket[] = []
+	let offset = 24
+	while (offset + 16 <= buf.length) {
+		const capLen = u32(offset + 8)
+		const start = offset + 16
+		if (start + capLen > buf.length) break
+		const packet = decodeFrame(linkType, buf.subarray(start, start + capLen))
+		if (packet) packets.push(packet)
+		offset = start + capLen
+	}
+	return packets
+}
+
+function readPcapng(buf: Buffer): CapturedPacket[] {
+	const packets: CapturedPacket[] = []
+	const linkTypes: number[] = []
+	let le = true
+	let offset = 0
+
+	while (offset + 12 <= buf.length) {
+		const type = buf.readUInt32LE(offset)
+		if (type === BLOCK_SHB) {
+			// Byte-order magic decides the endianness of this whole section
+			le = buf.readUInt32LE(offset + 8) === BYTE_ORDER_MAGIC
+			linkTypes.length = 0
+		}
+		const u16 = (o: number) => (le ? buf.readUInt16LE(o) : buf.readUInt16BE(o))
+		const u32 = (o: number) => (le ? buf.readUInt32LE(o) : buf.readUInt32BE(o))
+
+		const blockType = u32(offset)
+		const blockLen = u32(offset + 4)
+		if (blockLen < 12 || offset + blockLen > buf.length) break
+		const body = offset + 8
+		const bodyEnd = offset + blockLen - 4
+
+		if (blockType === BLOCK_IDB) {
+			linkTypes.push(u16(body))
+		} else if (blockType === BLOCK_EPB) {
+			const linkType = linkTypes[u32(body)] ?? LINKTYPE_RAW
+			const capLen = u32(body + 12)
+			const data = body + 20
+			const packet = decodeFrame(linkType, buf.subarray(data, data + capLen))
+			if (packet) {
+				// Walk the options for epb_flags, which carries the direction
+				let opt = data + capLen + ((4 - (capLen % 4)) % 4)
+				while (opt + 4 <= bodyEnd) {
+					const code = u16(opt)
+					const len = u16(opt + 2)
+					if (code === OPT_ENDOFOPT) break
+					if (code === OPT_EPB_FLAGS && len === 4) {
+						const dir = u32(opt + 4) & 0x3
+						if (dir === 1) packet.direction = 'in'
+						else if (dir === 2) packet.direction = 'out'
+					}
+					opt += 4 + len + ((4 - (len % 4)) % 4)
+				}
+				packets.push(packet)
+			}
+		} else if (blockType === BLOCK_SPB) {
+			const origLen = u32(body)
+			const capLen = Math.min(origLen, bodyEnd - body - 4)
+			const packet = decodeFrame(linkTypes[0] ?? LINKTYPE_RAW, buf.subarray(body + 4, body + 4 + capLen))
+			if (packet) packets.push(packet)
+		}
+
+		offset += blockLen
+	}
+	return packets
+}
+
+/** Strips the link-layer header and returns the UDP datagram inside, if any. */
+function decodeFrame(linkType: number, frame: Buffer): CapturedPacket | null {
+	switch (linkType) {
+		case LINKTYPE_ETHERNET: {
+			if (frame.length < 14) return null
+			let etherType = frame.readUInt16BE(12)
+			let offset = 14
+			while ((etherType === 0x8100 || etherType === 0x88a8) && frame.length >= offset + 4) {
+				// 802.1Q / 802.1ad VLAN tag
+				etherType = frame.readUInt16BE(offset + 2)
+				offset += 4
+			}
+			return etherType === 0x0800 ? decodeIpv4Udp(frame.subarray(offset)) : null
+		}
+		case LINKTYPE_RAW:
+		case LINKTYPE_IPV4:
+			return decodeIpv4Udp(frame)
+		case LINKTYPE_LINUX_SLL:
+			return frame.length >= 16 && frame.readUInt16BE(14) === 0x0800 ? decodeIpv4Udp(frame.subarray(16)) : null
+		case LINKTYPE_LINUX_SLL2:
+			return frame.length >= 20 && frame.readUInt16BE(0) === 0x0800 ? decodeIpv4Udp(frame.subarray(20)) : null
+		case LINKTYPE_NULL:
+			// Address family in host byte order — 2 is AF_INET everywhere
+			return frame.length >= 4 && (frame.readUInt32LE(0) === 2 || frame.readUInt32BE(0) === 2)
+				? decodeIpv4Udp(frame.subarray(4))
+				: null
+		default:
+			return null
+	}
+}
+
+function decodeIpv4Udp(ip: Buffer): CapturedPacket | null {
+	if (ip.length < 20 || ip[0] >> 4 !== 4 || ip[9] !== 17) return null
+	// Later fragments have no UDP header of their own
+	if ((ip.readUInt16BE(6) & 0x1fff) !== 0) return null
+	const headerLen = (ip[0] & 0x0f) * 4
+	const totalLen = Math.min(ip.readUInt16BE(2) || ip.length, ip.length)
+	if (totalLen < headerLen + 8) return null
+
+	const udp = ip.subarray(headerLen, totalLen)
+	const udpLen = Math.min(udp.readUInt16BE(4), udp.length)
+	return {
+		src: { address: Array.from(ip.subarray(12, 16)).join('.'), port: udp.readUInt16BE(0) },
+		dst: { address: Array.from(ip.subarray(16, 20)).join('.'), port: udp.readUInt16BE(2) },
+		payload: Buffer.from(udp.subarray(8, udpLen)),
+	}
+}
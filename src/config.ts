@@ -1,7 +1,8 @@
 import fs from 'fs'
 import path from 'path'
 import { Regex, type SomeCompanionConfigField, type JsonObject, createModuleLogger } from '@companion-module/base'
-import type { DeviceInfo } from './types.js'
+import { DEFAULT_RETRY_POLICY, type DeviceInfo, type RetryBackoff, type RetryPolicy } from './types.js'
+import { listLocalInterfaces } from './dante.js'
 
 const logger = createModuleLogger('Config')
 
@@ -12,6 +13,32 @@ export type ModuleConfig = JsonObject & {
 	host: string
 	/** Manual model selection — only used when deviceMac is '' */
 	activeModel: string
+	/** MACs of further discovered devices this instance also controls, alongside the main device */
+	extraDevices: string[]
+	/** Milliseconds to wait for an ACK before a command attempt counts as lost */
+	ackTimeout: number
+	/** Number of times an unacknowledged command is re-sent (0 = never) */
+	retryCount: number
+	/** Milliseconds before the first retry — later retries scale per retryBackoff */
+	retryDelay: number
+	/** How the retry delay grows between attempts */
+	retryBackoff: RetryBackoff
+	/** Wait for the device's echo after a write and fail if it applied a different value */
+	verifyWrites: boolean
+	/** Seconds between CMD_BUS_GET heartbeats to each device (0 = disabled) */
+	keepaliveInterval: number
+	/** Consecutive missed heartbeats before the device is reported disconnected */
+	keepaliveMisses: number
+	/** Periodic settings polling: off, the model's default interval, or pollInterval */
+	settingsPolling: SettingsPollingMode
+	/** Seconds between settings polls when settingsPolling is 'custom' */
+	pollInterval: number
+	/** Also browse mDNS for Studio-T devices (for networks that filter the 8708 announce group) */
+	mdnsDiscovery: boolean
+	/** Addresses to probe by unicast — CIDRs, ranges or single IPs (see parseSweepTargets) */
+	sweepTargets: string
+	/** Local IPv4 address of the interface for discovery and control traffic, or '' for automatic */
+	networkInterface: string
 }
 
 // ============================================================================
@@ -123,7 +150,16 @@ function loadAvailableModels(): string[] {
 	return Object.keys(schemas).sort()
 }
 
-export function GetConfigFields(discoveredDevices: DeviceInfo[] = []): SomeCompanionConfigField[] {
+const DEFAULT_KEEPALIVE_INTERVAL_S = 5
+const DEFAULT_KEEPALIVE_MISSES = 3
+const DEFAULT_POLL_INTERVAL_S = 10
+
+export type SettingsPollingMode = 'off' | 'model' | 'custom'
+
+export function GetConfigFields(
+	discoveredDevices: DeviceInfo[] = [],
+	savedExtraDevices: string[] = [],
+): SomeCompanionConfigField[] {
 	const models = loadAvailableModels()
 
 	// Dropdown id is the device MAC — stable across IP changes.
@@ -136,7 +172,42 @@ export function GetConfigFields(discoveredDevices: DeviceInfo[] = []): SomeCompa
 		})),
 	]
 
+	// Additional devices are also stored by MAC. Saved devices that are currently
+	// offline stay listed, otherwise saving the config would silently drop them.
+	const extraDeviceChoices = [
+		...discoveredDevices
+			.filter((d) => d.mac)
+			.map((d) => ({
+				id: d.mac!,
+				label: `Model ${d.model} [${d.mac}] @ ${d.ip}`,
+			})),
+		...savedExtraDevices
+			.filter((mac) => !discoveredDevices.some((d) => d.mac === mac))
+			.map((mac) => ({ id: mac, label: `[${mac}] (not found)` })),
+	]
+
+	// Interface dropdown id is the interface's IPv4 address. Empty id = follow OS routing.
+	const interfaceChoices = [
+		{ id: '', label: 'Automatic (OS routing)' },
+		...listLocalInterfaces().map((i) => ({
+			id: i.address,
+			label: `${i.name} — ${i.address} [${i.mac}]`,
+		})),
+	]
+
 	return [
+		// ── Network interface ────────────────────────────────────────────────
+		{
+			type: 'dropdown',
+			id: 'networkInterface',
+			label: 'Network Interface',
+			width: 8,
+			default: '',
+			choices: interfaceChoices,
+			tooltip:
+				'Interface used for discovery and device control. Pick the Dante network NIC on machines with several networks.',
+		},
+
 		// ── Device selection dropdown ────────────────────────────────────────
 		// Stores the MAC so re-discovery with a changed IP still matches.
 		{
@@ -175,6 +246,148 @@ export function GetConfigFields(discoveredDevices: DeviceInfo[] = []): SomeCompa
 			isVisibleExpression: `!$(options:deviceMac)`,
 			tooltip: 'Select which Studio Technologies model is active for actions and feedbacks.',
 		},
+
+		// ── Additional devices controlled by this instance ───────────────────
+		{
+			type: 'multidropdown',
+			id: 'extraDevices',
+			label: 'Additional Devices',
+			width: 8,
+			default: [],
+			choices: extraDeviceChoices,
+			tooltip:
+				'Further discovered devices to control from this connection. Actions and feedbacks get a Device option to pick which one they target.',
+		},
+
+		// ── Discovery sources ────────────────────────────────────────────────
+		{
+			type: 'checkbox',
+			id: 'mdnsDiscovery',
+			label: 'mDNS Discovery',
+			width: 4,
+			default: true,
+			tooltip:
+				'Also find devices through mDNS (Studio-T._sub._netaudio-cmc). Use this where switches filter the Dante announce multicast group.',
+		},
+
+		{
+			type: 'textinput',
+			id: 'sweepTargets',
+			label: 'Unicast Sweep (CIDR / IP list)',
+			width: 8,
+			default: '',
+			tooltip:
+				'Probe these addresses directly, for devices behind routers or where multicast is blocked. ' +
+				'Separate entries with commas, e.g. "10.20.0.0/24, 10.30.0.15, 10.40.0.10-40". ' +
+				'The sweep runs in the background at up to 50 probes per second.',
+		},
+
+		// ── Command retry policy ─────────────────────────────────────────────
+		{
+			type: 'number',
+			id: 'ackTimeout',
+			label: 'ACK Timeout (ms)',
+			width: 4,
+			default: DEFAULT_RETRY_POLICY.ackTimeoutMs,
+			min: 100,
+			max: 10000,
+			tooltip: 'How long to wait for the device to acknowledge a command before retrying.',
+		},
+		{
+			type: 'number',
+			id: 'retryCount',
+			label: 'Retries',
+			width: 4,
+			default: DEFAULT_RETRY_POLICY.retries,
+			min: 0,
+			max: 10,
+			tooltip:
+				'How many times an unacknowledged command is re-sent. Fixed exceptions, whatever is set here: ' +
+				'firmware and settings reads always retry up to 5 times, keepalives and a device reset never retry.',
+		},
+		{
+			type: 'number',
+			id: 'retryDelay',
+			label: 'Retry Delay (ms)',
+			width: 4,
+			default: DEFAULT_RETRY_POLICY.retryDelayMs,
+			min: 0,
+			max: 5000,
+			tooltip: 'Delay before the first retry.',
+		},
+		{
+			type: 'dropdown',
+			id: 'retryBackoff',
+			label: 'Retry Backoff',
+			width: 4,
+			default: DEFAULT_RETRY_POLICY.backoff,
+			choices: [
+				{ id: 'fixed', label: 'Fixed' },
+				{ id: 'linear', label: 'Linear' },
+				{ id: 'exponential', label: 'Exponential' },
+			],
+			tooltip: 'How the delay grows between retries of the same command.',
+		},
+		{
+			type: 'checkbox',
+			id: 'verifyWrites',
+			label: 'Verify Writes',
+			width: 4,
+			default: false,
+			tooltip:
+				'Wait for the device to echo the value it applied after a setting change, and fail the action if it differs (e.g. the device clamped it). ' +
+				'Skips the full settings refresh after such writes.',
+		},
+
+		// ── Connection health (keepalive) ────────────────────────────────────
+		{
+			type: 'number',
+			id: 'keepaliveInterval',
+			label: 'Keepalive Interval (s)',
+			width: 4,
+			default: DEFAULT_KEEPALIVE_INTERVAL_S,
+			min: 0,
+			max: 300,
+			tooltip: 'How often to ping the device to check it is still reachable. 0 disables the keepalive.',
+		},
+		{
+			type: 'number',
+			id: 'keepaliveMisses',
+			label: 'Missed Keepalives Before Disconnect',
+			width: 4,
+			default: DEFAULT_KEEPALIVE_MISSES,
+			min: 1,
+			max: 20,
+			tooltip: 'Number of unanswered keepalives in a row before the connection is shown as disconnected.',
+		},
+
+		// ── Settings polling ─────────────────────────────────────────────────
+		{
+			type: 'dropdown',
+			id: 'settingsPolling',
+			label: 'Settings Polling',
+			width: 4,
+			default: 'model',
+			choices: [
+				{ id: 'off', label: 'Off' },
+				{ id: 'model', label: 'Model default' },
+				{ id: 'custom', label: 'Custom interval' },
+			],
+			tooltip:
+				'Periodically read all settings, for devices that do not report front-panel changes by themselves. ' +
+				'"Model default" only polls models whose device file sets a poll interval.',
+		},
+		{
+			type: 'number',
+			id: 'pollInterval',
+			label: 'Poll Interval (s)',
+			width: 4,
+			default: DEFAULT_POLL_INTERVAL_S,
+			min: 1,
+			max: 3600,
+			isVisibleExpression: `$(options:settingsPolling) == 'custom'`,
+			tooltip: 'How often to read all settings from each device.',
+		},
 	]
 }
 
@@ -205,3 +418,89 @@ export function resolveModel(config: ModuleConfig, discoveredDevices: DeviceInfo
 	logger.debug(`resolveModel: manual mode, activeModel="${config.activeModel}"`)
 	return String(config.activeModel ?? '')
 }
+
+/**
+ * Returns the additional devices to control, in the order they were selected.
+ * Devices not currently discovered and the main device itself are left out.
+ */
+export function resolveExtraDevices(config: ModuleConfig, discoveredDevices: DeviceInfo[]): DeviceInfo[] {
+	const macs = Array.isArray(config.extraDevices) ? config.extraDevices : []
+	const primaryHost = resolveHost(config, discoveredDevices)
+	const devices: DeviceInfo[] = []
+	for (const mac of macs) {
+		const device = discoveredDevices.find((d) => d.mac === mac)
+		if (!device || device.ip === primaryHost || devices.includes(device)) continue
+		devices.push(device)
+	}
+	return devices
+}
+
+/**
+ * Returns the command retry policy from config, falling back to defaults
+ * for fields missing in configs saved before retries were configurable.
+ */
+export function resolveRetryPolicy(config: ModuleConfig): RetryPolicy {
+	const num = (value: unknown, fallback: number): number =>
+		typeof value === 'number' && Number.isFinite(value) && value >= 0 ? value : fallback
+	const backoffs: RetryBackoff[] = ['fixed', 'linear', 'exponential']
+
+	return {
+		retries: Math.floor(num(config.retryCount, DEFAULT_RETRY_POLICY.retries)),
+		ackTimeoutMs: num(config.ackTimeout, DEFAULT_RETRY_POLICY.ackTimeoutMs),
+		retryDelayMs: num(config.retryDelay, DEFAULT_RETRY_POLICY.retryDelayMs),
+		backoff: backoffs.includes(config.retryBackoff) ? config.retryBackoff : DEFAULT_RETRY_POLICY.backoff,
+		maxRetryDelayMs: DEFAULT_RETRY_POLICY.maxRetryDelayMs,
+	}
+}
+
+/**
+ * Returns the keepalive interval (ms, 0 = disabled) and miss threshold from config,
+ * falling back to defaults for configs saved before the keepalive existed.
+ */
+export function resolveKeepalive(config: ModuleConfig): { intervalMs: number; missThreshold: number } {
+	const interval =
+		typeof config.keepaliveInterval === 'number' && config.keepaliveInterval >= 0
+			? config.keepaliveInterval
+			: DEFAULT_KEEPALIVE_INTERVAL_S
+	const misses =
+		typeof config.keepaliveMisses === 'number' && config.keepaliveMisses >= 1
+			? Math.floor(config.keepaliveMisses)
+			: DEFAULT_KEEPALIVE_MISSES
+	return { intervalMs: interval * 1000, missThreshold: misses }
+}
+
+/**
+ * Returns the settings poll interval for a device (ms, 0 = not polled).
+ * modelDefault is the pollInterval (seconds) from the device's schema, if any.
+ * Configs saved before polling existed use the model default.
+ */
+export function resolvePollInterval(config: ModuleConfig, modelDefault: unknown): number {
+	switch (config.settingsPolling) {
+		case 'off':
+			return 0
+		case 'custom': {
+			const interval =
+				typeof config.pollInterval === 'number' && config.pollInterval >= 1
+					? config.pollInterval
+					: DEFAULT_POLL_INTERVAL_S
+			return interval * 1000
+		}
+		default:
+			return typeof modelDefault === 'number' && modelDefault > 0 ? modelDefault * 1000 : 0
+	}
+}
+
+/**
+ * Returns the configured interface address, or undefined for automatic selection.
+ * A saved interface that no longer exists (NIC removed, address changed) falls
+ * back to automatic rather than binding to a missing address.
+ */
+export function resolveInterface(config: ModuleConfig): string | undefined {
+	const address = String(config.networkInterface ?? '')
+	if (!address) return undefined
+	if (!listLocalInterfaces().some((i) => i.address === address)) {
+		logger.warn(`Configured network interface ${address} not found — using automatic selection`)
+		return undefined
+	}
+	return address
+}
@@ -2,6 +2,7 @@ import dgram from 'dgram'
 import os from 'os'
 import { createModuleLogger } from '@companion-module/base'
 import type { DeviceInfo } from './types.js'
+import type { PacketRecorder } from './capture.js'
 
 const logger = createModuleLogger('Dante')
 
@@ -42,8 +43,10 @@ export const DANTE_INFO_MIN_LEN = 0xcc + 64 // 268 bytes — need full model fie
  *   0x18  2 bytes   Protocol version (0x0739)
  *   0x1a  2 bytes   Sub-type (0x00c1)
  *   0x1c  uint32BE  Capability mask (0x000f4240)
+ *
+ * @param sourceMac - MAC to put in the request; defaults to the first local MAC
  */
-export function buildDanteInfoRequest(): Buffer {
+export function buildDanteInfoRequest(sourceMac?: Buffer): Buffer {
 	const buf = Buffer.alloc(32, 0)
 	const seq = Math.floor(Math.random() * 0xffff)
 
@@ -51,7 +54,7 @@ export function buildDanteInfoRequest(): Buffer {
 	buf.writeUInt16BE(DANTE_MSG_INFO_REQUEST, 2)
 	buf.writeUInt16BE(seq, 4)
 
-	const mac = getFirstLocalMac()
+	const mac = sourceMac ?? getFirstLocalMac()
 	mac.copy(buf, 8)
 
 	Buffer.from('Audinate', 'ascii').copy(buf, 16)
@@ -79,6 +82,38 @@ export function getFirstLocalMac(): Buffer {
 	return Buffer.alloc(6, 0)
 }
 
+/** A local IPv4 interface that can carry Dante / Studio-T traffic. */
+export type LocalInterface = {
+	name: string // OS interface name, e.g. "en0", "eth1"
+	address: string // IPv4 address
+	mac: string
+}
+
+/** Lists the non-loopback IPv4 interfaces of this machine. */
+export function listLocalInterfaces(): LocalInterface[] {
+	const out: LocalInterface[] = []
+	try {
+		const ifaces = os.networkInterfaces()
+		for (const name of Object.keys(ifaces)) {
+			for (const addr of ifaces[name] ?? []) {
+				if (addr.family === 'IPv4' && !addr.internal) {
+					out.push({ name, address: addr.address, mac: addr.mac })
+				}
+			}
+		}
+	} catch {
+		/* ignore */
+	}
+	return out
+}
+
+/** Returns the MAC bytes of the interface that owns localAddr, or null if none does. */
+export function getMacForLocalAddress(localAddr: string): number[] | null {
+	const iface = listLocalInterfaces().find((i) => i.address === localAddr)
+	if (!iface?.mac || iface.mac === '00:00:00:00:00:00') return null
+	return iface.mac.split(':').map((b) => parseInt(b, 16) & 0xff)
+}
+
 /**
  * Parses a Dante device info response (type 0x0170) into a DeviceInfo.
  *
@@ -156,18 +191,14 @@ export async function getMacForDestination(destIp: string): Promise<number[]> {
 				const localAddr = addr.address
 				tmp.close()
 
-				const ifaces = os.networkInterfaces()
-				for (const name of Object.keys(ifaces)) {
-					for (const iface of ifaces[name] ?? []) {
-						if (
-							iface.family === 'IPv4' &&
-							iface.address === localAddr &&
-							iface.mac &&
-							iface.mac !== '00:00:00:00:00:00'
-						) {
-							return resolve(iface.mac.split(':').map((b) => parseInt(b, 16) & 0xff))
-						}
-					}
+				const mac = getMacForLocalAddress(localAddr)
+				if (mac) return resolve(mac)
+
+				// Loopback (a local emulator) has no MAC — identify as the first real interface.
+				// On a real network a missing MAC would put the wrong interface in the header.
+				if (localAddr.startsWith('127.')) {
+					logger.debug(`No MAC for loopback address ${localAddr} — using the first local interface's MAC`)
+					return resolve(Array.from(getFirstLocalMac()))
 				}
 				reject(new Error(`No interface found for local address ${localAddr}`))
 			} catch (_e) {
@@ -215,6 +246,94 @@ export async function getLocalAddressForDestination(destIp: string): Promise<str
 	})
 }
 
+// ─── Unicast sweep targets ────────────────────────────────────────────────────
+
+/** Upper bound on addresses a sweep spec may expand to — a /20 is already 4094 probes */
+export const MAX_SWEEP_ADDRESSES = 4096
+
+function ipv4ToInt(ip: string): number | null {
+	const parts = ip.trim().split('.')
+	if (parts.length !== 4) return null
+	let n = 0
+	for (const part of parts) {
+		if (!/^\d{1,3}$/.test(part)) return null
+		const octet = Number(part)
+		if (octet > 255) return null
+		n = n * 256 + octet
+	}
+	return n
+}
+
+function intToIpv4(n: number): string {
+	return [n >>> 24, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff].join('.')
+}
+
+/**
+ * Expands a unicast sweep spec into a list of IPv4 addresses.
+ * Entries are separated by commas, semicolons or whitespace, each one of:
+ *   192.168.20.15              single address
+ *   192.168.20.0/24            CIDR block (network and broadcast addresses skipped)
+ *   192.168.20.10-192.168.20.40  inclusive range
+ *   192.168.20.10-40           inclusive range within the last octet
+ * Invalid entries are logged and skipped; the result is de-duplicated and capped
+ * at MAX_SWEEP_ADDRESSES.
+ */
+export function parseSweepTargets(spec: string): string[] {
+	const out = new Set<string>()
+
+	const addRange = (first: number, last: number, entry: string) => {
+		if (last < first) {
+			logger.warn(`Sweep target "${entry}" is an empty range — skipped`)
+			return
+		}
+		for (let n = first; n <= last; n++) {
+			if (out.size >= MAX_SWEEP_ADDRESSES) {
+				logger.warn(`Sweep targets exceed ${MAX_SWEEP_ADDRESSES} addresses — remaining addresses skipped`)
+				return
+			}
+			out.add(intToIpv4(n))
+		}
+	}
+
+	for (const entry of spec.split(/[\s,;]+/).filter(Boolean)) {
+		const cidr = entry.match(/^([\d.]+)\/(\d{1,2})$/)
+		const range = entry.match(/^([\d.]+)-([\d.]+)$/)
+
+		if (cidr) {
+			const base = ipv4ToInt(cidr[1])
+			const prefix = Number(cidr[2])
+			if (base === null || prefix > 32) {
+				logger.warn(`Invalid sweep CIDR "${entry}" — skipped`)
+				continue
+			}
+			const size = 2 ** (32 - prefix)
+			const network = base - (base % size)
+			// /31 and /32 have no separate network/broadcast address
+			if (prefix >= 31) addRange(network, network + size - 1, entry)
+			else addRange(network + 1, network + size - 2, entry)
+		} else if (range) {
+			const first = ipv4ToInt(range[1])
+			// "10.0.0.5-20" — the end is just a last octet, so borrow the first three from the start
+			const end = /^\d{1,3}$/.test(range[2]) ? `${range[1].split('.').slice(0, 3).join('.')}.${range[2]}` : range[2]
+			const last = ipv4ToInt(end)
+			if (first === null || last === null) {
+				logger.warn(`Invalid sweep range "${entry}" — skipped`)
+				continue
+			}
+			addRange(first, last, entry)
+		} else {
+			const single = ipv4ToInt(entry)
+			if (single === null) {
+				logger.warn(`Invalid sweep address "${entry}" — skipped`)
+				continue
+			}
+			addRange(single, single, entry)
+		}
+	}
+
+	return Array.from(out)
+}
+
 /**
  * Listens for Dante device announces on the local network and sends unicast
  * info requests to each discovered IP. Responses arrive on the caller's rxSocket
@@ -223,24 +342,30 @@ export async function getLocalAddressForDestination(destIp: string): Promise<str
  * @param txSocket - The socket to use for sending discovery requests
  * @param ensureMembership - Callback to ensure multicast membership before querying
  * @param timeoutMs - How long to listen for announces before resolving
+ * @param localAddress - Interface to listen and query on; undefined follows OS routing
+ * @param recordPacket - Optional hook that receives every announce and query, for packet capture
  */
 export async function discoverDevices(
 	txSocket: dgram.Socket,
 	ensureMembership: (destIp: string) => Promise<void>,
 	timeoutMs = 5000,
+	localAddress?: string,
+	recordPacket?: PacketRecorder,
 ): Promise<void> {
 	const DANTE_ANNOUNCE_GROUP = '224.0.0.233'
 	const DANTE_ANNOUNCE_PORT = 8708
 	const DEFAULT_PORT = 8700
 
 	const queriedIps = new Set<string>()
+	const localMac = localAddress ? getMacForLocalAddress(localAddress) : null
+	const sourceMac = localMac ? Buffer.from(localMac) : undefined
 
 	return new Promise<void>((resolve) => {
 		const announceSocket = dgram.createSocket({ type: 'udp4', reuseAddr: true })
 
 		const cleanup = () => {
 			try {
-				announceSocket.dropMembership(DANTE_ANNOUNCE_GROUP)
+				announceSocket.dropMembership(DANTE_ANNOUNCE_GROUP, localAddress)
 			} catch {
 				/* ignore */
 			}
@@ -261,6 +386,12 @@ export async function discoverDevices(
 
 		announceSocket.on('message', (msg, rinfo) => {
 			const srcIp = rinfo.address
+			recordPacket?.(
+				'in',
+				msg,
+				{ address: srcIp, port: rinfo.port },
+				{ address: DANTE_ANNOUNCE_GROUP, port: DANTE_ANNOUNCE_PORT },
+			)
 			// Validate it's a Dante announce (magic 0xfffe + "Audinate" at offset 16)
 			if (msg.length < 24) return
 			if (msg.readUInt16BE(0) !== 0xfffe) return
@@ -275,7 +406,14 @@ export async function discoverDevices(
 			// in addition to unicasting it — rxSocket must be a member to receive it.
 			const sendQuery = async () => {
 				await ensureMembership(srcIp)
-				const query = buildDanteInfoRequest()
+				const query = buildDanteInfoRequest(sourceMac)
+				const local = txSocket.address()
+				recordPacket?.(
+					'out',
+					query,
+					{ address: local.address, port: local.port },
+					{ address: srcIp, port: DEFAULT_PORT },
+				)
 				txSocket.send(query, DEFAULT_PORT, srcIp, (err) => {
 					if (err) logger.warn(`Unicast query to ${srcIp} failed: ${err.message}`)
 				})
@@ -285,8 +423,10 @@ export async function discoverDevices(
 
 		announceSocket.bind(DANTE_ANNOUNCE_PORT, () => {
 			try {
-				announceSocket.addMembership(DANTE_ANNOUNCE_GROUP)
-				logger.info(`Listening for Dante announces on ${DANTE_ANNOUNCE_GROUP}:${DANTE_ANNOUNCE_PORT}`)
+				announceSocket.addMembership(DANTE_ANNOUNCE_GROUP, localAddress)
+				logger.info(
+					`Listening for Dante announces on ${DANTE_ANNOUNCE_GROUP}:${DANTE_ANNOUNCE_PORT} via ${localAddress ?? 'default interface'}`,
+				)
 			} catch (err) {
 				logger.warn(`Could not join announce multicast group: ${err}`)
 			}
@@ -63,6 +63,26 @@ export interface StudioTDiscoveryOptions {
 	onDeviceFound?: (device: DeviceInfo) => void
 	onDeviceLost?: (device: DeviceInfo) => void
 	log?: (level: string, msg: string) => void
+	/** Receives every datagram heard on the heartbeat group, before parsing (e.g. for packet capture) */
+	onPacket?: (msg: Buffer, rinfo: dgram.RemoteInfo) => void
+}
+
+/** A Studio-T device resolved through mDNS (PTR → SRV → A). */
+export interface MdnsDeviceInfo {
+	ip: string
+	/** mDNS hostname from the SRV target, e.g. "ST-M374A-9ba6cd.local" */
+	hostname: string
+	/** Service instance name, e.g. "ST-M374A-Beltpack._netaudio-cmc._udp.local" */
+	instance: string
+	lastSeen: number
+}
+
+export interface StudioTMdnsBrowserOptions {
+	onDeviceFound?: (device: MdnsDeviceInfo) => void
+	onDeviceLost?: (device: MdnsDeviceInfo) => void
+	log?: (level: string, msg: string) => void
+	/** How often to send the subtype query (ms) */
+	queryIntervalMs?: number
 }
 
 export const STUDIO_T_MULTICAST_GROUP = '224.0.0.233'
@@ -93,6 +113,13 @@ export const PORT_VIA_ALT = 24455 // VIA Audio Control (alternate)
 // NOTE: Port 8700 is the Studio-T heartbeat SOURCE port and is NOT advertised via mDNS
 
 const DEVICE_TIMEOUT_MS = 5000 // Remove device if no heartbeat for 5 seconds
+const MDNS_QUERY_INTERVAL_MS = 10000 // Re-query the Studio-T subtype this often
+const MDNS_MISSED_QUERIES = 3 // Remove an mDNS device after this many unanswered query rounds
+
+// DNS record types used by the browser
+const DNS_TYPE_A = 1
+const DNS_TYPE_PTR = 12
+const DNS_TYPE_SRV = 33
 
 // ─── mDNS packet parsing ──────────────────────────────────────────────────────
 
@@ -212,14 +239,25 @@ function _readDnsName(buf: Buffer, offset: number): { name: string; next: number
 }
 
 /**
- * Extract model string from a Studio-T mDNS hostname.
- * e.g. "ST-M374A-9ba6cd.local" → "374A", "ST-M370A-001122.local" → "370A"
- * Returns null if the pattern doesn't match.
+ * Build a one-shot mDNS query packet (QR=0) for the given questions.
+ * e.g. [{ name: MDNS_SUBTYPE, type: 12 }] asks for every Studio-T instance.
  */
-export function modelFromMdnsHostname(hostname: string): string | null {
-	// hostname: ST-M374A-9ba6cd  (with or without trailing .local)
-	const m = hostname.replace(/\.local\.?$/, '').match(/^ST-M(\w+)-[0-9a-f]{6}$/i)
-	return m ? m[1] : null
+export function buildMdnsQuery(questions: Array<{ name: string; type: number }>): Buffer {
+	const header = Buffer.alloc(12, 0)
+	header.writeUInt16BE(questions.length, 4) // QDCOUNT
+
+	const parts: Buffer[] = [header]
+	for (const q of questions) {
+		for (const label of q.name.replace(/\.$/, '').split('.')) {
+			const bytes = Buffer.from(label, 'utf8')
+			parts.push(Buffer.from([bytes.length]), bytes)
+		}
+		const tail = Buffer.alloc(5, 0) // root label + type + class
+		tail.writeUInt16BE(q.type, 1)
+		tail.writeUInt16BE(0x0001, 3) // class IN
+		parts.push(tail)
+	}
+	return Buffer.concat(parts)
 }
 
 // ─── Studio-T heartbeat parsing ───────────────────────────────────────────────
@@ -290,13 +328,15 @@ export class StudioTDiscovery {
 	private readonly _onDeviceFound: (device: DeviceInfo) => void
 	private readonly _onDeviceLost: (device: DeviceInfo) => void
 	private readonly _log: (level: string, msg: string) => void
+	private readonly _onPacket?: (msg: Buffer, rinfo: dgram.RemoteInfo) => void
 	private readonly _devices = new Map<string, DeviceInfo>()
 	private _socket: dgram.Socket | null = null
 	private _sweepTimer: ReturnType<typeof setInterval> | null = null
 
-	constructor({ onDeviceFound, onDeviceLost, log }: StudioTDiscoveryOptions = {}) {
+	constructor({ onDeviceFound, onDeviceLost, log, onPacket }: StudioTDiscoveryOptions = {}) {
 		this._onDeviceFound = onDeviceFound ?? (() => undefined)
 		this._onDeviceLost = onDeviceLost ?? (() => undefined)
+		this._onPacket = onPacket
 		this._log = log ?? ((level, msg) => console.log(`[StudioTDiscovery][${level}] ${msg}`))
 	}
 
@@ -315,6 +355,7 @@ export class StudioTDiscovery {
 		})
 
 		socket.on('message', (msg: Buffer, rinfo: dgram.RemoteInfo) => {
+			this._onPacket?.(msg, rinfo)
 			this._handleMessage(msg, rinfo)
 		})
 
@@ -393,3 +434,187 @@ export class StudioTDiscovery {
 		return undefined
 	}
 }
+
+/**
+ * StudioTMdnsBrowser
+ *
+ * Second discovery source for networks where the 224.0.0.233:8708 announce
+ * group is filtered but mDNS is allowed. Periodically queries the
+ * Studio-T._sub._netaudio-cmc subtype, follows PTR → SRV → A records (sending
+ * follow-up queries for anything missing), and reports each resolved device
+ * with the model parsed from its ST-M{model}-xxxxxx.local hostname.
+ */
+export class StudioTMdnsBrowser {
+	private readonly _onDeviceFound: (device: MdnsDeviceInfo) => void
+	private readonly _onDeviceLost: (device: MdnsDeviceInfo) => void
+	private readonly _log: (level: string, msg: string) => void
+	private readonly _queryIntervalMs: number
+	private readonly _devices = new Map<string, MdnsDeviceInfo>() // keyed by instance name
+	private readonly _instances = new Set<string>() // Studio-T instance names seen in PTR answers
+	private readonly _srvTargets = new Map<string, string>() // instance → hostname
+	private readonly _hostIps = new Map<string, string>() // hostname → IPv4
+	private _socket: dgram.Socket | null = null
+	private _queryTimer: ReturnType<typeof setInterval> | null = null
+
+	constructor({ onDeviceFound, onDeviceLost, log, queryIntervalMs }: StudioTMdnsBrowserOptions = {}) {
+		this._onDeviceFound = onDeviceFound ?? (() => undefined)
+		this._onDeviceLost = onDeviceLost ?? (() => undefined)
+		this._log = log ?? ((level, msg) => console.log(`[StudioTMdnsBrowser][${level}] ${msg}`))
+		this._queryIntervalMs = queryIntervalMs ?? MDNS_QUERY_INTERVAL_MS
+	}
+
+	/** Start browsing for Studio-T devices via mDNS. */
+	start(bindInterface?: string): void {
+		if (this._socket) {
+			this._log('warn', 'mDNS browser already running')
+			return
+		}
+
+		const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true })
+		this._socket = socket
+
+		socket.on('error', (err: Error) => {
+			this._log('error', `mDNS socket error: ${err.message}`)
+		})
+
+		socket.on('message', (msg: Buffer) => {
+			this._handleMessage(msg)
+		})
+
+		socket.bind(MDNS_PORT, () => {
+			try {
+				socket.addMembership(MDNS_MULTICAST, bindInterface)
+				if (bindInterface) socket.setMulticastInterface(bindInterface)
+				this._log('info', `Joined mDNS ${MDNS_MULTICAST}:${MDNS_PORT} on ${bindInterface ?? 'default'}`)
+			} catch (err) {
+				this._log('error', `Failed to join mDNS multicast group: ${(err as Error).message}`)
+			}
+			this._query()
+		})
+
+		this._queryTimer = setInterval(() => {
+			this._sweepDevices()
+			this._query()
+		}, this._queryIntervalMs)
+		this._log('info', 'Studio-T mDNS browser started')
+	}
+
+	/** Stop browsing and clean up. */
+	stop(): void {
+		if (this._queryTimer) {
+			clearInterval(this._queryTimer)
+			this._queryTimer = null
+		}
+		if (this._socket) {
+			try {
+				this._socket.close()
+			} catch (err) {
+				this._log('warn', `Error closing mDNS socket: ${(err as Error).message}`)
+			}
+			this._socket = null
+		}
+		this._devices.clear()
+		this._instances.clear()
+		this._srvTargets.clear()
+		this._hostIps.clear()
+		this._log('info', 'Studio-T mDNS browser stopped')
+	}
+
+	/** Get current list of devices resolved via mDNS. */
+	getDevices(): MdnsDeviceInfo[] {
+		return Array.from(this._devices.values())
+	}
+
+	private _send(questions: Array<{ name: string; type: number }>): void {
+		if (!this._socket || questions.length === 0) return
+		this._socket.send(buildMdnsQuery(questions), MDNS_PORT, MDNS_MULTICAST, (err) => {
+			if (err) this._log('warn', `mDNS query failed: ${err.message}`)
+		})
+	}
+
+	private _query(): void {
+		this._send([{ name: MDNS_SUBTYPE, type: DNS_TYPE_PTR }])
+	}
+
+	private _handleMessage(msg: Buffer): void {
+		const parsed = parseMdnsPacket(msg)
+		if (!parsed) return
+
+		// Instances this packet said something about — only those are (re)resolved,
+		// so unrelated mDNS chatter neither refreshes lastSeen nor triggers queries.
+		const touched = new Set<string>()
+
+		// PTR answers for the Studio-T subtype name the instances we care about
+		parsed.ptrNames.forEach((name, i) => {
+			if (!name.toLowerCase().includes(MDNS_STUDIO_T_FILTER)) return
+			this._instances.add(parsed.ptrTargets[i])
+			touched.add(parsed.ptrTargets[i])
+		})
+		for (const srv of parsed.srvs) {
+			if (!this._instances.has(srv.name)) continue
+			this._srvTargets.set(srv.name, srv.target)
+			touched.add(srv.name)
+		}
+		for (const a of parsed.aRecords) {
+			const hostname = a.name.toLowerCase()
+			for (const [instance, target] of this._srvTargets) {
+				if (target.toLowerCase() !== hostname) continue
+				this._hostIps.set(hostname, a.ip)
+				touched.add(instance)
+			}
+		}
+
+		this._resolve(touched)
+	}
+
+	/** Emit each fully resolved instance; ask for the records still missing. */
+	private _resolve(instances: Set<string>): void {
+		const missing: Array<{ name: string; type: number }> = []
+
+		for (const instance of instances) {
+			const hostname = this._srvTargets.get(instance)
+			if (!hostname) {
+				missing.push({ name: instance, type: DNS_TYPE_SRV })
+				continue
+			}
+			const ip = this._hostIps.get(hostname.toLowerCase())
+			if (!ip) {
+				missing.push({ name: hostname, type: DNS_TYPE_A })
+				continue
+			}
+
+			const existing = this._devices.get(instance)
+			if (existing && existing.ip === ip) {
+				existing.lastSeen = Date.now()
+				continue
+			}
+
+			const device: MdnsDeviceInfo = {
+				ip,
+				hostname,
+				instance,
+				lastSeen: Date.now(),
+			}
+			this._devices.set(instance, device)
+			this._log('info', `mDNS device found: ${instance} → ${hostname} @ ${ip}`)
+			this._onDeviceFound(device)
+		}
+
+		this._send(missing)
+	}
+
+	private _sweepDevices(): void {
+		const now = Date.now()
+		for (const [instance, device] of this._devices) {
+			if (now - device.lastSeen > this._queryIntervalMs * MDNS_MISSED_QUERIES) {
+				this._devices.delete(instance)
+				// Forget the cached records too, so a returning device is resolved fresh
+				this._instances.delete(instance)
+				this._srvTargets.delete(instance)
+				this._hostIps.delete(device.hostname.toLowerCase())
+				this._log('info', `mDNS device lost: ${instance} @ ${device.ip}`)
+				this._onDeviceLost(device)
+			}
+		}
+	}
+}
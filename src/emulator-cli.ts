@@ -0,0 +1,63 @@
+/**
+ * Command-line front end for the virtual device emulator.
+ *
+ *   yarn build
+ *   yarn emulator <model> [<model> ...] [--address 127.0.0.1] [--firmware 1.00] [--announce <ms>] [--verbose]
+ *
+ * Each model gets its own device, on consecutive addresses starting at --address
+ * (127.0.0.1, 127.0.0.2, …). Point the module's Device IP at one of them. Runs until Ctrl+C.
+ *
+ *   --address   first local address to listen on (default 127.0.0.1)
+ *   --firmware  firmware version every device reports (default 1.00)
+ *   --announce  send Dante announces / heartbeats every <ms> so discovery finds the devices
+ *   --verbose   log every request the devices receive
+ */
+import { parseArgs } from 'util'
+
+const { values, positionals } = parseArgs({
+	allowPositionals: true,
+	options: {
+		address: { type: 'string', default: '127.0.0.1' },
+		firmware: { type: 'string' },
+		announce: { type: 'string' },
+		verbose: { type: 'boolean', default: false },
+	},
+})
+
+if (positionals.length === 0) {
+	console.error(
+		'Usage: emulator <model> [<model> ...] [--address <ip>] [--firmware <x.yy>] [--announce <ms>] [--verbose]',
+	)
+	process.exitCode = 2
+} else {
+	await run(positionals)
+}
+
+async function run(models: string[]): Promise<void> {
+	// Route module loggers to the console; must be set before the module code loads
+	const globalWithLogger = globalThis as { COMPANION_LOGGER?: (source: string, level: string, message: string) => void }
+	globalWithLogger.COMPANION_LOGGER = (source, level, message) => {
+		if (level === 'debug' && !values.verbose) return
+		console.log(`[${level.toUpperCase()}]${source ? ` [${source}]` : ''} ${message}`)
+	}
+
+	const { StudioTEmulator } = await import('./emulator.js')
+
+	const [a, b, c, d] = values.address.split('.').map((o) => parseInt(o, 10))
+	const announceIntervalMs = values.announce ? parseInt(values.announce, 10) : 0
+
+	const emulators = models.map(
+		(model, i) =>
+			new StudioTEmulator({
+				model,
+				address: `${a}.${b}.${c}.${d + i}`,
+				firmware: values.firmware,
+				announceIntervalMs,
+			}),
+	)
+	await Promise.all(emulators.map(async (emulator) => emulator.start()))
+
+	process.once('SIGINT', () => {
+		for (const emulator of emulators) emulator.stop()
+	})
+}
@@ -0,0 +1,470 @@
+import dgram from 'dgram'
+import { createModuleLogger } from '@companion-module/base'
+import { getDeviceSchema } from './config.js'
+import {
+	CMD_BUS_GET,
+	CMD_BUS_SET,
+	CMD_CHANNEL,
+	CMD_DEV_SPEC,
+	CMD_GET_ALL_SETTINGS,
+	CMD_GET_FIRMWARE,
+	CMD_GLOBAL_MIC_KILL,
+	CMD_MIC_PRE,
+	CMD_MIC_PRE_BUS,
+	CMD_RESET_DEVICE,
+	CMD_SETTINGS_PUSH,
+	getCommandName,
+	toHex,
+} from './types.js'
+import { DANTE_INFO_MIN_LEN, DANTE_MSG_INFO_REQUEST, DANTE_MSG_INFO_RESPONSE } from './dante.js'
+import { STUDIO_T_LISTEN_PORT, STUDIO_T_MAGIC, STUDIO_T_MULTICAST_GROUP } from './discovery.js'
+import { STUDIO_T_STATUS_ACK } from './errors.js'
+import { getMicPrePositions, type StAction, type StActionOption } from './settingsParser.js'
+import { StController } from './stcontroller.js'
+
+const logger = createModuleLogger('Emulator')
+
+const CONTROL_PORT = 8700 // Devices listen for Dante info requests and Studio-T commands here
+const RESPONSE_PORT = 8702 // …and always answer to this port on the requester
+const ANNOUNCE_LEN = 0xbc
+
+/** Commands whose payload carries a bus/channel byte before the length byte */
+const BUS_COMMANDS = [CMD_BUS_SET, CMD_MIC_PRE_BUS, CMD_CHANNEL]
+
+// NACK status bytes. Real devices' NACK codes aren't documented — these are the
+// emulator's own, and the module only relies on any non-zero byte being a refusal
+const STATUS_UNKNOWN_COMMAND = 0x01
+const STATUS_INVALID_SETTING = 0x02
+const STATUS_OUT_OF_RANGE = 0x03
+
+export type StudioTEmulatorOptions = {
+	model: string // Schema to emulate — devices/Model<model>.json
+	modelName?: string // Model string reported in the Dante info response (default "Model <model>")
+	address?: string // Local address to listen on (default 127.0.0.1 — use 127.0.0.x for several devices)
+	mac?: string // Default derived from the address
+	firmware?: string // Reported by CMD_GET_FIRMWARE, "major.minor" (default "1.00")
+	danteFirmware?: string // Reported in the Dante info response (default "4.2")
+	announceIntervalMs?: number // Multicast Dante announces/heartbeats this often; 0 = never (default)
+}
+
+/** One emulated setting: where it lives and what it accepts */
+type EmulatedSetting = {
+	cmdId: number
+	id: number
+	busCh?: number
+	value: number[]
+	entry: StAction
+}
+
+/**
+ * A virtual Studio-T device for development and CI. Answers Dante info requests
+ * and Studio-T commands on <address>:8700 the way a real unit does, with
+ * settings generated from the model's device JSON:
+ *
+ *   0x0020 Dante info       → 0x0170 response with the model string
+ *   CMD_GET_FIRMWARE        → firmware version
+ *   CMD_GET_ALL_SETTINGS    → all settings, flat or sectioned per the schema
+ *   writes (0x0d, 0x04, …)  → ACK, then CMD_SETTINGS_PUSH to every client (0x0d and 0x12
+ *                             also echo [busCh][settingId][value] after the ACK);
+ *                             unknown / read-only settings and out-of-range values are NACKed
+ *   CMD_BUS_GET, mic kill   → ACK
+ *   CMD_RESET_DEVICE        → ACK, settings back to schema defaults
+ *
+ * Replies echo the request's header sequence number.
+ */
+export class StudioTEmulator {
+	readonly model: string
+	readonly address: string
+	private readonly options: StudioTEmulatorOptions
+	private readonly mac: number[]
+	private readonly sectioned: boolean
+	private readonly entries: StAction[]
+
+	private socket: dgram.Socket | null = null
+	private announceTimer: ReturnType<typeof setInterval> | null = null
+	private announceSeq = 0
+
+	/** Current settings, keyed by settingKey() */
+	private settings: Map<string, EmulatedSetting> = new Map()
+
+	/** Addresses that have talked to us — settings pushes go to all of them */
+	private clients: Set<string> = new Set()
+
+	constructor(options: StudioTEmulatorOptions) {
+		const schema = getDeviceSchema(options.model)
+		if (!schema) throw new Error(`Model "${options.model}" not found in device schemas`)
+
+		this.options = options
+		this.model = options.model
+		this.address = options.address ?? '127.0.0.1'
+		this.mac = options.mac ? parseMac(options.mac) : macFromAddress(this.address)
+		this.sectioned = schema.sectioned ?? false
+		this.entries = Array.isArray(schema.cmdSchema) ? schema.cmdSchema : []
+		this.resetSettings()
+	}
+
+	/** Binds <address>:8700 and starts answering. */
+	async start(): Promise<void> {
+		if (this.socket) return
+		const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true })
+		this.socket = socket
+
+		socket.on('error', (err) => {
+			logger.error(`Emulator ${this.address} socket error: ${err.message}`)
+		})
+		socket.on('message', (msg, rinfo) => {
+			try {
+				this.handleMessage(msg, rinfo.address)
+			} catch (e) {
+				logger.error(`Emulator ${this.address} failed to handle packet: ${e}`)
+			}
+		})
+
+		await new Promise<void>((resolve) => socket.bind({ address: this.address, port: CONTROL_PORT }, resolve))
+		logger.info(`Emulating Model ${this.model} on ${this.address}:${CONTROL_PORT} (${this.settings.size} settings)`)
+
+		const intervalMs = this.options.announceIntervalMs ?? 0
+		if (intervalMs > 0) {
+			try {
+				socket.setMulticastInterface(this.address)
+				socket.setMulticastLoopback(true)
+			} catch (e) {
+				logger.warn(`Emulator ${this.address} can't multicast announces: ${e}`)
+			}
+			this.announceTimer = setInterval(() => this.sendAnnounce(), intervalMs)
+			this.sendAnnounce()
+		}
+	}
+
+	stop(): void {
+		if (this.announceTimer) {
+			clearInterval(this.announceTimer)
+			this.announceTimer = null
+		}
+		try {
+			this.socket?.close()
+		} catch {
+			/* ignore */
+		}
+		this.socket = null
+		this.clients.clear()
+	}
+
+	/** Current value bytes of a setting, or undefined if the schema doesn't define it. */
+	getSetting(cmdId: number, id: number, busCh?: number): number[] | undefined {
+		return this.settings.get(settingKey(cmdId, id, busCh))?.value
+	}
+
+	/**
+	 * Changes a setting as if from the device's front panel, and pushes the new
+	 * settings to every client. Returns false if the schema doesn't define it.
+	 */
+	setSetting(cmdId: number, id: number, busCh: number | undefined, value: number[]): boolean {
+		const setting = this.settings.get(settingKey(cmdId, id, busCh))
+		if (!setting) return false
+		setting.value = [...value]
+		this.pushSettings()
+		return true
+	}
+
+	// ── Settings model ─────────────────────────────────────────────────────────
+
+	/** (Re)builds every setting from the schema defaults — one per idAdd / busCh combination. */
+	private resetSettings(): void {
+		this.settings.clear()
+		for (const entry of this.entries) {
+			const idAdds = choiceIds(entry.options?.find((o) => o.id === 'idAdd')) ?? [0]
+			const buses = choiceIds(entry.options?.find((o) => o.id === 'busCh')) ?? [entry.busCh]
+			const valueOption = entry.options?.find((o) => o.id === 'value')
+
+			for (const busCh of buses) {
+				for (const idAdd of idAdds) {
+					const id = entry.id + idAdd
+					this.settings.set(settingKey(entry.cmd_id, id, busCh), {
+						cmdId: entry.cmd_id,
+						id,
+						busCh,
+						value: defaultValueBytes(valueOption),
+						entry,
+					})
+				}
+			}
+		}
+	}
+
+	/** Checks a write against the schema; returns the status byte to answer with. */
+	private applyWrite(cmdId: number, id: number, busCh: number | undefined, value: number[]): number {
+		const setting = this.settings.get(settingKey(cmdId, id, busCh))
+		if (!setting || setting.entry.readonly) return STATUS_INVALID_SETTING
+
+		const option = setting.entry.options?.find((o) => o.id === 'value')
+		if (!valueAllowed(option, value)) return STATUS_OUT_OF_RANGE
+
+		setting.value = [...value]
+		return STUDIO_T_STATUS_ACK
+	}
+
+	/** Entries the sectioned parser reads positionally from a CMD_MIC_PRE section, in position order */
+	private positionalEntries(): StAction[] {
+		return getMicPrePositions(this.entries)
+	}
+
+	/**
+	 * Encodes all settings the way parseGetAllSettings_flat / _sectioned read them.
+	 * Flat devices only report CMD_DEV_SPEC settings — that's all the flat layout can express.
+	 */
+	private encodeSettings(forPush: boolean): number[] {
+		const all = Array.from(this.settings.values())
+
+		if (!this.sectioned) {
+			const block = all.filter((s) => s.cmdId === CMD_DEV_SPEC).flatMap((s) => [s.id & 0xff, ...s.value])
+			return [block.length & 0xff, ...block]
+		}
+
+		const sections: number[][] = []
+
+		// Positional mic-pre sections: [cmdLen] [0x02] [busCh] [val0] [val1] ...
+		const positional = this.positionalEntries()
+		const positionalBuses = Array.from(new Set(positional.map((e) => e.busCh!)))
+		for (const busCh of positionalBuses) {
+			const values = positional.map((e) => this.getSetting(e.cmd_id, e.id, busCh)?.[0] ?? 0)
+			sections.push([CMD_MIC_PRE, busCh & 0xff, ...values])
+		}
+
+		// id:value sections, one per command (and bus, for bus commands)
+		const groups = new Map<string, EmulatedSetting[]>()
+		for (const s of all) {
+			if (positional.includes(s.entry)) continue
+			const hasBus = BUS_COMMANDS.includes(s.cmdId)
+			const groupKey = hasBus ? `${s.cmdId}:${s.busCh ?? 0}` : `${s.cmdId}`
+			const group = groups.get(groupKey) ?? []
+			group.push(s)
+			groups.set(groupKey, group)
+		}
+		for (const group of groups.values()) {
+			const { cmdId, busCh } = group[0]
+			const data = group.flatMap((s) => [s.id & 0xff, ...s.value])
+			const head = BUS_COMMANDS.includes(cmdId) ? [cmdId, (busCh ?? 0) & 0xff] : [cmdId]
+			sections.push([...head, data.length & 0xff, ...data])
+		}
+
+		const body = sections.flatMap((section) => [section.length & 0xff, ...section])
+		// CMD_GET_ALL_SETTINGS has a total-length byte before the sections; CMD_SETTINGS_PUSH does not
+		return forPush ? body : [body.length & 0xff, ...body]
+	}
+
+	// ── Protocol ───────────────────────────────────────────────────────────────
+
+	private handleMessage(msg: Buffer, srcIp: string): void {
+		if (msg.length < 4 || msg.readUInt16BE(0) !== 0xffff) return
+		this.clients.add(srcIp)
+
+		if (msg.readUInt16BE(2) === DANTE_MSG_INFO_REQUEST && msg.subarray(16, 24).toString('ascii') === 'Audinate') {
+			this.send(this.buildDanteInfoResponse(msg.readUInt16BE(4)), srcIp)
+			return
+		}
+
+		if (msg.length < 27 || msg.subarray(16, 24).toString('ascii') !== 'Studio-T') return
+		const payload = msg.subarray(24)
+		if (payload[0] !== 0x5a) return
+		if (StController.crc8DvbS2(Array.from(payload.subarray(0, payload.length - 1))) !== payload[payload.length - 1]) {
+			logger.warn(`Emulator ${this.address}: request with bad CRC from ${srcIp} ignored`)
+			return
+		}
+
+		const seq = msg.readUInt16BE(4)
+		const cmdId = payload[1] & 0x7f
+		const data = payload.subarray(2, payload.length - 1)
+		const reply = (replyData: number[]) => this.send(this.buildStudioTPacket(cmdId | 0x80, replyData, seq), srcIp)
+
+		logger.debug(`Emulator ${this.address} ← ${srcIp} | ${getCommandName(cmdId)} ${data.toString('hex')}`)
+
+		switch (cmdId) {
+			case CMD_GET_FIRMWARE: {
+				const [major, minor] = (this.options.firmware ?? '1.00').split('.').map((n) => parseInt(n, 10) || 0)
+				reply([0x00, major & 0xff, minor & 0xff])
+				return
+			}
+			case CMD_GET_ALL_SETTINGS:
+				reply(this.encodeSettings(false))
+				return
+			case CMD_BUS_GET:
+			case CMD_GLOBAL_MIC_KILL:
+				reply([STUDIO_T_STATUS_ACK])
+				return
+			case CMD_RESET_DEVICE:
+				this.resetSettings()
+				reply([STUDIO_T_STATUS_ACK])
+				this.pushSettings()
+				return
+			case CMD_MIC_PRE: {
+				// Positional: [busCh] [val0] [val1] ...
+				const busCh = data[0]
+				const positional = this.positionalEntries()
+				let status = STUDIO_T_STATUS_ACK
+				Array.from(data.subarray(1)).forEach((value, i) => {
+					const entry = positional[i]
+					if (entry && status === STUDIO_T_STATUS_ACK) status = this.applyWrite(entry.cmd_id, entry.id, busCh, [value])
+				})
+				reply([status])
+				if (status === STUDIO_T_STATUS_ACK) this.pushSettings()
+				return
+			}
+		}
+
+		// Everything else is [busCh]? [len] [settingId] [value...]. The same command can be
+		// sent with or without a bus byte (e.g. 0x12 on Model 348), so let the length byte decide.
+		const withBus = data.length >= 3 && data[1] === data.length - 2
+		const withoutBus = data.length >= 2 && data[0] === data.length - 1
+		const hasBus = withBus && (!withoutBus || this.settings.has(settingKey(cmdId, data[2], data[0])))
+		const busCh = hasBus ? data[0] : undefined
+		const body = data.subarray(hasBus ? 2 : 1)
+		if (body.length === 0 || !this.entries.some((e) => e.cmd_id === cmdId)) {
+			reply([STATUS_UNKNOWN_COMMAND])
+			return
+		}
+
+		const id = body[0]
+		const value = Array.from(body.subarray(1))
+		if (value.length === 0) {
+			// Read of a single setting — answer with [busCh]? [settingId] [value...]
+			const current = this.getSetting(cmdId, id, busCh)
+			if (current) reply([...(busCh !== undefined ? [busCh] : []), id, ...current])
+			else reply([STATUS_INVALID_SETTING])
+			return
+		}
+
+		const status = this.applyWrite(cmdId, id, busCh, value)
+		if (status !== STUDIO_T_STATUS_ACK) {
+			logger.info(
+				`Emulator ${this.address}: refusing ${getCommandName(cmdId)} ${toHex(id)} = ${value} (${toHex(status)})`,
+			)
+		}
+		reply([status])
+		if (status !== STUDIO_T_STATUS_ACK) return
+		// Device settings and bus mic-pre writes are confirmed with an echo of the applied value
+		if (cmdId === CMD_DEV_SPEC || cmdId === CMD_MIC_PRE_BUS) reply([(busCh ?? 0) & 0xff, id, ...value])
+		this.pushSettings()
+	}
+
+	/** Sends CMD_SETTINGS_PUSH with the full settings block to every known client. */
+	private pushSettings(): void {
+		const packet = this.buildStudioTPacket(CMD_SETTINGS_PUSH, this.encodeSettings(true), 0)
+		for (const client of this.clients) this.send(packet, client)
+	}
+
+	private send(packet: Buffer, destIp: string): void {
+		this.socket?.send(packet, RESPONSE_PORT, destIp, (err) => {
+			if (err) logger.warn(`Emulator ${this.address} → ${destIp} failed: ${err.message}`)
+		})
+	}
+
+	private buildStudioTPacket(cmd: number, data: number[], seq: number): Buffer {
+		const body = [0x5a, cmd & 0xff, ...data]
+		const payload = Buffer.from([...body, StController.crc8DvbS2(body)])
+		const totalLen = 24 + payload.length
+		return Buffer.concat([
+			Buffer.from([
+				0xff,
+				0xff,
+				(totalLen >> 8) & 0xff,
+				totalLen & 0xff,
+				(seq >> 8) & 0xff,
+				seq & 0xff,
+				0x00,
+				0x00,
+				...this.mac,
+				0x00,
+				0x00,
+			]),
+			Buffer.from('Studio-T', 'ascii'),
+			payload,
+		])
+	}
+
+	/** EUI-64 as Dante derives it from the MAC: xx:xx:xx:ff:fe:xx:xx:xx */
+	private eui64(): number[] {
+		return [...this.mac.slice(0, 3), 0xff, 0xfe, ...this.mac.slice(3)]
+	}
+
+	private buildDanteInfoResponse(seq: number): Buffer {
+		const buf = Buffer.alloc(DANTE_INFO_MIN_LEN, 0)
+		buf.writeUInt16BE(0xffff, 0)
+		buf.writeUInt16BE(DANTE_MSG_INFO_RESPONSE, 2)
+		buf.writeUInt16BE(seq, 4)
+		Buffer.from(this.eui64()).copy(buf, 8)
+		buf.write('Audinate', 16, 'ascii')
+		const [major, minor] = (this.options.danteFirmware ?? '4.2').split('.').map((n) => parseInt(n, 10) || 0)
+		buf[0x18] = major & 0xff
+		buf[0x19] = minor & 0xff
+		buf.write('Studio-T', 0x20, 31, 'ascii')
+		buf.write('Studio Technologies, Inc.', 0x4c, 64, 'ascii')
+		buf.write(this.options.modelName ?? `Model ${this.model}`, 0xcc, 63, 'ascii')
+		return buf
+	}
+
+	/** Dante announce that also parses as a Studio-T heartbeat (magic ff fe 00 bc, no tagged blocks). */
+	private sendAnnounce(): void {
+		const buf = Buffer.alloc(ANNOUNCE_LEN, 0)
+		STUDIO_T_MAGIC.copy(buf, 0)
+		buf.writeUInt16BE(this.announceSeq, 4)
+		this.announceSeq = (this.announceSeq + 1) & 0xffff
+		Buffer.from(this.eui64()).copy(buf, 8)
+		buf.write('Audinate', 16, 'ascii')
+		this.socket?.send(buf, STUDIO_T_LISTEN_PORT, STUDIO_T_MULTICAST_GROUP, (err) => {
+			if (err) logger.debug(`Emulator ${this.address} announce failed: ${err.message}`)
+		})
+	}
+}
+
+function settingKey(cmdId: number, id: number, busCh: number | undefined): string {
+	return `${cmdId}:${busCh ?? '-'}:${id}`
+}
+
+function choiceIds(option: StActionOption | undefined): number[] | undefined {
+	const ids = option?.choices?.map((c) => c.id).filter((id) => typeof id === 'number')
+	return ids && ids.length > 0 ? ids : undefined
+}
+
+function defaultValueBytes(option: StActionOption | undefined): number[] {
+	const def = option?.default
+	if (option?.type === 'colorpicker') {
+		const rgb = typeof def === 'string' ? parseInt(def.replace('#', ''), 16) || 0 : Number(def) || 0
+		return [(rgb >> 16) & 0xff, (rgb >> 8) & 0xff, rgb & 0xff]
+	}
+	if (typeof def === 'boolean') return [def ? 1 : 0]
+	if (Array.isArray(def)) return def.map((v) => Number(v) & 0xff)
+	return [Number(def ?? 0) & 0xff]
+}
+
+function valueAllowed(option: StActionOption | undefined, value: number[]): boolean {
+	if (!option) return true
+	switch (option.type) {
+		case 'colorpicker':
+			return value.length === 3 || value.length === 1
+		case 'checkbox':
+			return value.length === 1 && value[0] <= 1
+		case 'dropdown':
+			return value.length === 1 && (option.choices ?? []).some((c) => c.id === value[0])
+		case 'number': {
+			const { min, max } = option as StActionOption & { min?: number; max?: number }
+			return value.length === 1 && (min === undefined || value[0] >= min) && (max === undefined || value[0] <= max)
+		}
+		default:
+			return true
+	}
+}
+
+function parseMac(mac: string): number[] {
+	const bytes = mac.split(/[:-]/).map((b) => parseInt(b, 16))
+	if (bytes.length !== 6 || bytes.some((b) => Number.isNaN(b) || b < 0 || b > 0xff)) {
+		throw new Error(`Invalid MAC address "${mac}"`)
+	}
+	return bytes
+}
+
+/** Locally administered MAC built from the address, so each emulated device gets its own */
+function macFromAddress(address: string): number[] {
+	const octets = address.split('.').map((o) => parseInt(o, 10) & 0xff)
+	return [0x02, 0x53, 0x54, octets[1] ?? 0, octets[2] ?? 0, octets[3] ?? 0]
+}
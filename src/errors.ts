@@ -0,0 +1,67 @@
+import { bytesToHex, getCommandName, toHex } from './types.js'
+
+/** Status byte of a single-byte reply that accepts the command — any other value is a NACK */
+export const STUDIO_T_STATUS_ACK = 0x00
+
+/**
+ * Names of the status codes the Studio-T protocol documents. Only the ACK is:
+ * the meaning of the individual NACK codes isn't, so those keep their raw value.
+ */
+const STUDIO_T_STATUS_NAMES: Record<number, string> = {
+	[STUDIO_T_STATUS_ACK]: 'OK',
+}
+
+/**
+ * Describes the status byte a Studio-T device returns in a single-byte reply —
+ * its name if documented, e.g. "OK (0x00)", otherwise "Device Error 0x03".
+ */
+export function describeStudioTError(code: number): string {
+	const name = STUDIO_T_STATUS_NAMES[code]
+	return name ? `${name} (${toHex(code)})` : `Device Error ${toHex(code)}`
+}
+
+/**
+ * Raised when a device answers a command with a non-zero status byte (NACK)
+ * instead of an ACK — the device received the command but refused it.
+ */
+export class StudioTDeviceError extends Error {
+	/** Raw status byte returned by the device */
+	readonly code: number
+	/** Command the device refused */
+	readonly cmdId: number
+	readonly deviceIp: string
+
+	constructor(code: number, cmdId: number, deviceIp: string) {
+		super(`Device at ${deviceIp} refused ${getCommandName(cmdId)}: ${describeStudioTError(code)}`)
+		this.name = 'StudioTDeviceError'
+		this.code = code
+		this.cmdId = cmdId
+		this.deviceIp = deviceIp
+	}
+}
+
+/**
+ * Raised by a verified write when the device's echo shows it applied a different
+ * value than requested — typically clamped to the nearest value it supports.
+ */
+export class StudioTWriteMismatchError extends Error {
+	/** Value bytes sent to the device */
+	readonly requested: number[]
+	/** Value bytes the device echoed back as applied */
+	readonly applied: number[]
+	readonly cmdId: number
+	readonly settingId: number
+	readonly deviceIp: string
+
+	constructor(requested: number[], applied: number[], cmdId: number, settingId: number, deviceIp: string) {
+		super(
+			`Device at ${deviceIp} applied ${getCommandName(cmdId)} ${toHex(settingId)} = ${bytesToHex(applied)} instead of ${bytesToHex(requested)}`,
+		)
+		this.name = 'StudioTWriteMismatchError'
+		this.requested = requested
+		this.applied = applied
+		this.cmdId = cmdId
+		this.settingId = settingId
+		this.deviceIp = deviceIp
+	}
+}
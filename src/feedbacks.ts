@@ -1,5 +1,6 @@
+import { combineRgb, type CompanionAdvancedFeedbackResult } from '@companion-module/base'
 import ModuleInstance from './main.js'
-import { buildFeedbacks } from './build-commands.js'
+import { buildDeviceOption, buildFeedbacks } from './build-commands.js'
 import { getDeviceSchemas } from './config.js'
 import { parseSettingId, getNormalizedSchemas, findActionForSetting } from './types.js'
 
@@ -25,6 +26,61 @@ function getLabelForValue(
 	return choice?.label ?? value
 }
 
+/**
+ * Evaluates a boolean "matches" feedback: compares the current value of the
+ * setting with the operator and value(s) chosen. An unknown value never matches.
+ */
+function matchesSetting(current: number | undefined, options: any): boolean {
+	if (current === undefined) return false
+	const value = Number(options['value'])
+
+	switch (options['operator']) {
+		case 'ne':
+			return current !== value
+		case 'gt':
+			return current > value
+		case 'lt':
+			return current < value
+		case 'in': {
+			// Multi-select of choice IDs, or a comma-separated list for numeric settings
+			const raw = options['values']
+			const values = Array.isArray(raw)
+				? raw.map(Number)
+				: String(raw ?? '')
+						.split(',')
+						.map((v) => v.trim())
+						.filter((v) => v !== '')
+						.map(Number)
+			return values.includes(current)
+		}
+		case 'eq':
+		default:
+			return current === value
+	}
+}
+
+/**
+ * Button style for an advanced colour feedback. deviceState packs RGB settings
+ * as (R << 16) | (G << 8) | B, the same layout as combineRgb, so the value is
+ * used as the colour directly. An unknown colour leaves the button alone.
+ */
+function colorStyle(current: number | undefined, paint: unknown): CompanionAdvancedFeedbackResult {
+	if (current === undefined) return {}
+	switch (paint) {
+		case 'color':
+			return { color: current }
+		case 'contrast': {
+			// Perceived brightness (ITU-R BT.601) decides between black and white text
+			const [r, g, b] = [(current >> 16) & 0xff, (current >> 8) & 0xff, current & 0xff]
+			const light = r * 0.299 + g * 0.587 + b * 0.114 > 150
+			return { bgcolor: current, color: light ? combineRgb(0, 0, 0) : combineRgb(255, 255, 255) }
+		}
+		case 'bgcolor':
+		default:
+			return { bgcolor: current }
+	}
+}
+
 /**
  * Build and wire Companion feedback definitions
  * Pattern matches actions.ts - filters by active model and wires callbacks
@@ -37,35 +93,68 @@ export function UpdateFeedbacks(self: ModuleInstance): void {
 
 	// Get the active model from the cached value set by syncModel()
 	const activeModel = self.activeModel
+	const extraDevices = self.extraDevices
+	const managedModels = new Set([activeModel, ...extraDevices.map((d) => d.model)])
 
 	// ---------------------------------------------
-	// ✅ BUILD PER-SETTING FEEDBACKS (FILTERED BY ACTIVE MODEL)
+	// ✅ BUILD PER-SETTING FEEDBACKS (FILTERED BY CONTROLLED MODELS)
 	// ---------------------------------------------
 
 	for (const [feedbackId, feedback] of Object.entries(rawFeedbacks)) {
 		const { model, cmdId, baseId } = parseSettingId(feedbackId)
 
-		// Only include feedbacks for the currently active model
-		if (model !== activeModel) continue
+		// Only include feedbacks for models this instance controls
+		if (!managedModels.has(model)) continue
+		if (!feedback) continue
+
+		const deviceOption = buildDeviceOption(model, activeModel, extraDevices)
+
+		// Current value of the setting the feedback's options point at
+		const readSetting = (options: any): { current: number | undefined; settingId: number } => {
+			const ip = self.resolveDeviceIp(options['device'])
+			const idAdd = options['idAdd'] ?? 0
+			const settingId = baseId + idAdd
+
+			// busCh from options takes priority; fall back to fixed busCh in schema
+			let busCh = options['busCh']
+			if (busCh === undefined) {
+				const schemaAction = findActionForSetting(schemas, model, cmdId, settingId)
+				if (schemaAction?.busCh !== undefined) {
+					busCh = schemaAction.busCh
+				}
+			}
+
+			return { current: self.stController.getSettingValue(ip, cmdId, settingId, busCh), settingId }
+		}
+
+		// ADVANCED FEEDBACK: Paints the button with an RGB colour setting
+		if (feedback.type === 'advanced') {
+			wiredFeedbacks[feedbackId] = {
+				...feedback,
+				options: deviceOption ? [deviceOption, ...feedback.options] : feedback.options,
+				callback: (feedbackEvent: any) =>
+					colorStyle(readSetting(feedbackEvent.options).current, feedbackEvent.options['paint']),
+			}
+			continue
+		}
+
+		// BOOLEAN FEEDBACK: Styles the button when the setting matches
+		if (feedback.type === 'boolean') {
+			wiredFeedbacks[feedbackId] = {
+				...feedback,
+				options: deviceOption ? [deviceOption, ...feedback.options] : feedback.options,
+				callback: (feedbackEvent: any) =>
+					matchesSetting(readSetting(feedbackEvent.options).current, feedbackEvent.options),
+			}
+			continue
+		}
 
 		// VALUE FEEDBACK: Returns current value for local variable
 		wiredFeedbacks[feedbackId] = {
 			...feedback,
+			options: deviceOption ? [deviceOption, ...feedback.options] : feedback.options,
 			callback: (feedbackEvent: any) => {
-				const ip = self.host
-				const idAdd = feedbackEvent.options['idAdd'] ?? 0
-				const settingId = baseId + idAdd
-
-				// busCh from options takes priority; fall back to fixed busCh in schema
-				let busCh = feedbackEvent.options['busCh']
-				if (busCh === undefined) {
-					const schemaAction = findActionForSetting(schemas, model, cmdId, settingId)
-					if (schemaAction?.busCh !== undefined) {
-						busCh = schemaAction.busCh
-					}
-				}
-
-				const current = self.stController.getSettingValue(ip, cmdId, settingId, busCh)
+				const { current, settingId } = readSetting(feedbackEvent.options)
 
 				// Check if user wants label instead of numeric value
 				const showLabel = feedbackEvent.options['showLabel'] ?? false
@@ -0,0 +1,125 @@
+import { createModuleLogger } from '@companion-module/base'
+import { StudioTDeviceError } from './errors.js'
+
+const logger = createModuleLogger('HealthMonitor')
+
+/**
+ * Connection health of one device, as seen by the keepalive:
+ *   ok        — last heartbeat was answered
+ *   degraded  — at least one heartbeat missed, but fewer than the miss threshold
+ *   lost      — missThreshold consecutive heartbeats went unanswered
+ */
+export type DeviceHealth = 'ok' | 'degraded' | 'lost'
+
+export interface HealthMonitorOptions {
+	/** Time between heartbeats to each device (ms) */
+	intervalMs: number
+	/** Consecutive missed heartbeats before a device is considered lost */
+	missThreshold: number
+	/** Devices to monitor — read on every tick, so newly authorized devices are picked up */
+	getTargets: () => string[]
+	/** Sends one heartbeat; must reject if the device doesn't answer (a NACK still counts as an answer) */
+	ping: (ip: string) => Promise<unknown>
+	/** Called only when a device's health changes */
+	onStateChange: (ip: string, health: DeviceHealth, previous: DeviceHealth, misses: number) => void
+}
+
+/**
+ * Periodically pings every monitored device and tracks consecutive misses.
+ * A device starts out 'ok' (it was just verified when authorized) and moves
+ * to 'degraded' / 'lost' as heartbeats go unanswered, and back to 'ok' on the
+ * first answered heartbeat.
+ */
+export class HealthMonitor {
+	private readonly options: HealthMonitorOptions
+	private timer: ReturnType<typeof setInterval> | null = null
+
+	/** Per-IP health and consecutive miss count */
+	private states: Map<string, { health: DeviceHealth; misses: number }> = new Map()
+
+	/** IPs with a heartbeat still awaiting its reply — skipped on the next tick */
+	private inFlight: Set<string> = new Set()
+
+	constructor(options: HealthMonitorOptions) {
+		this.options = options
+	}
+
+	start(): void {
+		if (this.timer) return
+		if (this.options.intervalMs <= 0) {
+			logger.info('Keepalive disabled')
+			return
+		}
+		this.timer = setInterval(() => this.tick(), this.options.intervalMs)
+		this.timer.unref?.()
+		logger.info(
+			`Keepalive started: every ${this.options.intervalMs} ms, lost after ${this.options.missThreshold} missed heartbeat(s)`,
+		)
+	}
+
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer)
+			this.timer = null
+		}
+		this.states.clear()
+		this.inFlight.clear()
+	}
+
+	/** Current health of a device — 'ok' for devices not (yet) monitored. */
+	getHealth(ip: string): DeviceHealth {
+		return this.states.get(ip)?.health ?? 'ok'
+	}
+
+	private tick(): void {
+		const targets = this.options.getTargets()
+
+		// Forget devices that are no longer monitored (revoked, config changed)
+		for (const ip of Array.from(this.states.keys())) {
+			if (!targets.includes(ip)) this.states.delete(ip)
+		}
+
+		for (const ip of targets) {
+			if (this.inFlight.has(ip)) continue
+			this.inFlight.add(ip)
+			this.options
+				.ping(ip)
+				.then(
+					() => this.record(ip, true),
+					(err) => {
+						// A NACK is still an answer — the device is online, it just refused the heartbeat
+						if (err instanceof StudioTDeviceError) {
+							logger.debug(`Heartbeat to ${ip} refused, device answered: ${err.message}`)
+							this.record(ip, true)
+							return
+						}
+						logger.debug(`Heartbeat to ${ip} missed: ${err}`)
+						this.record(ip, false)
+					},
+				)
+				.finally(() => this.inFlight.delete(ip))
+		}
+	}
+
+	private record(ip: string, answered: boolean): void {
+		// Device may have been revoked while the heartbeat was outstanding
+		if (!this.options.getTargets().includes(ip)) return
+
+		const state = this.states.get(ip) ?? { health: 'ok' as DeviceHealth, misses: 0 }
+		const previous = state.health
+
+		if (answered) {
+			state.misses = 0
+			state.health = 'ok'
+		} else {
+			state.misses++
+			state.health = state.misses >= this.options.missThreshold ? 'lost' : 'degraded'
+		}
+		this.states.set(ip, state)
+
+		if (state.health !== previous) {
+			logger.info(`Device ${ip} health: ${previous} → ${state.health} (missed ${state.misses})`)
+			this.options.onStateChange(ip, state.health, previous, state.misses)
+		}
+	}
+}
@@ -5,15 +5,45 @@ import {
 	SomeCompanionConfigField,
 	createModuleLogger,
 } from '@companion-module/base'
-import { GetConfigFields, resolveHost, resolveModel, getDeviceSchema, type ModuleConfig } from './config.js'
-import { UpdateVariableDefinitions, UpdateVariableValues } from './variables.js'
+import {
+	GetConfigFields,
+	resolveHost,
+	resolveModel,
+	resolveExtraDevices,
+	resolveRetryPolicy,
+	resolveKeepalive,
+	resolveInterface,
+	resolvePollInterval,
+	getDeviceSchema,
+	type ModuleConfig,
+} from './config.js'
+import {
+	UpdateSettingVariables,
+	UpdateVariableDefinitions,
+	UpdateVariableValues,
+	deviceVariableId,
+} from './variables.js'
 import { UpgradeScripts } from './upgrades.js'
 import { UpdateActions } from './actions.js'
 import { UpdateFeedbacks } from './feedbacks.js'
+import { UpdatePresets } from './presets.js'
+import { feedbackIdsForSetting } from './build-commands.js'
 import { StController } from './stcontroller.js'
-import type { DeviceInfo } from './types.js'
+import { HealthMonitor, type DeviceHealth } from './health.js'
+import { SettingsPoller, type PollTarget } from './poller.js'
+import { StudioTDiscovery, StudioTMdnsBrowser, STUDIO_T_LISTEN_PORT, STUDIO_T_MULTICAST_GROUP } from './discovery.js'
+import { parseSweepTargets } from './dante.js'
+import { toHex, type DeviceInfo } from './types.js'
+import type { StudioTDeviceError } from './errors.js'
 
 const logger = createModuleLogger('ModuleInstance')
+const discoveryLogger = createModuleLogger('Discovery')
+
+/** Adapts the (level, msg) log callback used by discovery.ts to the module logger */
+function logDiscovery(level: string, msg: string): void {
+	const logFn = discoveryLogger[level as keyof typeof discoveryLogger] ?? discoveryLogger.info
+	logFn(msg)
+}
 
 export type ModuleTypes = InstanceTypes & {
 	config: ModuleConfig
@@ -22,6 +52,23 @@ export type ModuleTypes = InstanceTypes & {
 export default class ModuleInstance extends InstanceBase<ModuleTypes> {
 	config!: ModuleConfig // Setup in init()
 	stController!: StController
+	private healthMonitor?: HealthMonitor
+	private settingsPoller?: SettingsPoller
+
+	/** Continuous heartbeat listener — keeps discoveredDevices current after the initial discovery */
+	private backgroundDiscovery?: StudioTDiscovery
+
+	/** mDNS browser — second discovery source for networks that filter the 8708 announce group */
+	private mdnsBrowser?: StudioTMdnsBrowser
+
+	/** Stops the unicast sweep in progress — replaced on every new sweep */
+	private sweepAbort?: AbortController
+
+	/** Local address of the interface selected in config, or undefined for automatic */
+	private localInterface?: string
+
+	/** Set in destroy() so discovery finishing late doesn't start new listeners */
+	private destroyed = false
 
 	/** Cached discovery results — passed into getConfigFields() so the UI
 	 *  can show the discovered device dropdown on subsequent config opens. */
@@ -31,6 +78,11 @@ export default class ModuleInstance extends InstanceBase<ModuleTypes> {
 	 *  so UpdateActions, UpdateFeedbacks etc. don't each call resolveModel independently. */
 	activeModel: string = ''
 
+	/** IPs of the additional devices currently set up by syncExtraDevices() */
+	private managedExtraIps: Set<string> = new Set()
+	/** Controlled devices no discovery source announces any more — refreshed when one is seen again */
+	private unannouncedIps: Set<string> = new Set()
+
 	constructor(internal: unknown) {
 		super(internal)
 	}
@@ -40,18 +92,60 @@ export default class ModuleInstance extends InstanceBase<ModuleTypes> {
 		if (!this.stController) {
 			this.stController = new StController()
 		}
+		this.stController.setRetryPolicy(resolveRetryPolicy(config))
+		this.stController.setVerifyWrites(config.verifyWrites === true)
+		this.localInterface = resolveInterface(config)
+		this.stController.setInterface(this.localInterface)
 		this.updateStatus(InstanceStatus.Connecting, 'Discovering devices...')
 
 		// Wire feedback callback so stController can trigger feedback updates
 		this.stController.setFeedbackCallback((feedbackId: string) => {
-			this.checkFeedbacks(feedbackId)
+			// The value feedback and its boolean counterpart share the setting
+			const [valueFeedback, ...related] = feedbackIdsForSetting(feedbackId)
+			this.checkFeedbacks(valueFeedback, ...related)
+		})
+
+		// Keep each device's setting variables in step with the same state changes
+		this.stController.setSettingCallback((ip: string, changes: Map<string, number | undefined>) => {
+			UpdateSettingVariables(this, ip, changes)
+		})
+
+		// Surface device NACKs so operators can see a setting was refused
+		this.stController.setErrorCallback((error: StudioTDeviceError) => {
+			this.setVariableValues({
+				lastError: error.message,
+				lastErrorCode: toHex(error.code),
+			})
+		})
+
+		// Count corrupt packets per device — a rising number points at cabling or a switch
+		this.stController.setCorruptPacketCallback((ip: string, count: number) => {
+			const variableId = deviceVariableId(this, ip, 'corruptPackets')
+			if (variableId) this.setVariableValues({ [variableId]: count })
+		})
+
+		// Follow the selected device across DHCP address changes
+		this.stController.setDeviceInfoCallback((device: DeviceInfo) => {
+			if (!device.mac) return
+			this.followAddressChange(device.mac, device.ip, 'Dante info response').catch((e) => {
+				logger.warn(`Failed to follow address change of ${device.mac}: ${e}`)
+			})
 		})
 
+		this.startHealthMonitor()
+		this.startSettingsPoller()
+
 		// Start discovery in the background — all model resolution, schema sync,
 		// and UI updates happen inside runDiscovery() once the device list is known.
-		this.runDiscovery().catch((e) => {
-			logger.error(`Discovery failed: ${e}`)
-		})
+		// Afterwards, keep listening so devices that appear, reboot or vanish are tracked.
+		this.runDiscovery()
+			.catch((e) => {
+				logger.error(`Discovery failed: ${e}`)
+			})
+			.finally(() => {
+				this.startBackgroundDiscovery()
+				this.runSweep()
+			})
 	}
 
 	/**
@@ -63,6 +157,8 @@ export default class ModuleInstance extends InstanceBase<ModuleTypes> {
 	private async runDiscovery(): Promise<void> {
 		logger.info('Starting device discovery...')
 
+		// The unicast sweep (for routed/filtered networks) runs afterwards in the background and
+		// merges what it finds like any other found device, so it never holds up startup
 		this.discoveredDevices = await this.stController.discoverDevices()
 
 		// Determine effective model — from discovered devices first, manual config only as fallback
@@ -95,17 +191,9 @@ export default class ModuleInstance extends InstanceBase<ModuleTypes> {
 				this.stController.authorizeDevice(device.ip)
 			}
 
-			// Request firmware version from each discovered device
-			for (const device of this.discoveredDevices) {
-				try {
-					const firmware = await this.stController.requestFirmwareVersion(device.ip)
-					device.firmwareMain = firmware
-					logger.info(`  - ${device.ip}: Firmware ${firmware}, Dante ${device.danteFirmware}`)
-				} catch (e) {
-					logger.warn(`  - ${device.ip}: Failed to get firmware: ${e}`)
-					device.firmwareMain = 'Unknown'
-				}
-			}
+			// Request firmware version from each discovered device. Each device has its own
+			// send queue, so run them in parallel — an offline device doesn't stall the rest.
+			await Promise.all(this.discoveredDevices.map(async (device) => this.fetchFirmware(device)))
 
 			effectiveModel = resolveModel(this.config, this.discoveredDevices)
 
@@ -125,10 +213,12 @@ export default class ModuleInstance extends InstanceBase<ModuleTypes> {
 		// discovery results are known. This is the same check configUpdated uses.
 		const targetHost = this.host
 		await this.verifyAuthorization('', targetHost)
+		await this.syncExtraDevices()
 
 		// Build all UI now that model and authorization state are known
 		this.updateActions()
 		this.updateFeedbacks()
+		this.updatePresets()
 		this.updateVariableDefinitions()
 		this.updateVariableValues()
 
@@ -136,15 +226,322 @@ export default class ModuleInstance extends InstanceBase<ModuleTypes> {
 		logger.info('Device discovery complete')
 	}
 
+	/** Requests the firmware version of a device and stores it on the DeviceInfo. */
+	private async fetchFirmware(device: DeviceInfo): Promise<void> {
+		try {
+			const firmware = await this.stController.requestFirmwareVersion(device.ip)
+			device.firmwareMain = firmware
+			logger.info(`  - ${device.ip}: Firmware ${firmware}, Dante ${device.danteFirmware}`)
+		} catch (e) {
+			logger.warn(`  - ${device.ip}: Failed to get firmware: ${e}`)
+			device.firmwareMain = 'Unknown'
+		}
+	}
+
+	/**
+	 * Starts the continuous heartbeat listener and, if enabled, the mDNS browser.
+	 * Found devices are probed for their model and merged into discoveredDevices
+	 * (so the config dropdown is current next time it opens); lost devices are
+	 * dropped and revoked. When the configured device reappears it is
+	 * re-authorized and its state rebuilt.
+	 */
+	private startBackgroundDiscovery(): void {
+		if (this.backgroundDiscovery || this.destroyed) return
+		this.backgroundDiscovery = new StudioTDiscovery({
+			onDeviceFound: (heartbeat) => {
+				this.onDeviceFound(heartbeat.ip, 'heartbeat', heartbeat.mac).catch((e) => {
+					logger.warn(`Failed to handle found device ${heartbeat.ip}: ${e}`)
+				})
+			},
+			onDeviceLost: (heartbeat) => this.onDeviceLost(heartbeat.ip),
+			log: logDiscovery,
+			onPacket: (msg, rinfo) =>
+				this.stController.recordPacket(
+					'in',
+					msg,
+					{ address: rinfo.address, port: rinfo.port },
+					{ address: STUDIO_T_MULTICAST_GROUP, port: STUDIO_T_LISTEN_PORT },
+				),
+		})
+		this.backgroundDiscovery.start(this.localInterface)
+		this.syncMdnsBrowser()
+	}
+
+	private stopBackgroundDiscovery(): void {
+		this.backgroundDiscovery?.stop()
+		this.backgroundDiscovery = undefined
+		this.mdnsBrowser?.stop()
+		this.mdnsBrowser = undefined
+	}
+
+	/** Starts or stops the mDNS browser to match the mdnsDiscovery config option. */
+	private syncMdnsBrowser(): void {
+		const enabled = this.config.mdnsDiscovery !== false
+		if (!enabled && this.mdnsBrowser) {
+			this.mdnsBrowser.stop()
+			this.mdnsBrowser = undefined
+		} else if (enabled && !this.mdnsBrowser && !this.destroyed) {
+			this.mdnsBrowser = new StudioTMdnsBrowser({
+				onDeviceFound: (mdns) => {
+					this.onDeviceFound(mdns.ip, `mDNS ${mdns.hostname}`).catch((e) => {
+						logger.warn(`Failed to handle found device ${mdns.ip}: ${e}`)
+					})
+				},
+				onDeviceLost: (mdns) => this.onDeviceLost(mdns.ip),
+				log: logDiscovery,
+			})
+			this.mdnsBrowser.start(this.localInterface)
+		}
+	}
+
+	/**
+	 * A discovery source saw a device at this IP. Probes it for its Dante info
+	 * (unless already known and authorized), merges it into discoveredDevices and
+	 * reconnects if it is the configured device.
+	 */
+	private async onDeviceFound(ip: string, source: string, mac?: string): Promise<void> {
+		// A known MAC heard from a new IP has moved (e.g. new DHCP lease) — not a new device
+		if (mac && (await this.followAddressChange(mac, ip, source))) return
+
+		const known = this.discoveredDevices.find((d) => d.ip === ip)
+		if (known && this.stController.isDeviceAuthorized(known.ip)) {
+			// Announced again after going quiet — it may have rebooted, so its state is stale
+			if (this.unannouncedIps.delete(ip)) await this.refreshReappearedDevice(known, source)
+			return
+		}
+
+		const device = known ?? (await this.stController.probeDevice(ip))
+		if (!device) {
+			logger.debug(`Device seen via ${source} at ${ip} but no Studio-T info response — ignoring`)
+			return
+		}
+
+		if (known) {
+			if (device.ip === this.host) await this.reconnectSelectedDevice()
+			return
+		}
+		await this.addDiscoveredDevice(device, source)
+	}
+
+	/**
+	 * Fetches the state of a controlled device again after it reappeared: the
+	 * selected device is reconnected, an additional device has its settings re-read.
+	 */
+	private async refreshReappearedDevice(device: DeviceInfo, source: string): Promise<void> {
+		logger.info(`Model ${device.model} @ ${device.ip} announced again via ${source} — refreshing its state`)
+		if (device.ip === this.host) {
+			await this.reconnectSelectedDevice()
+		} else if (this.managedExtraIps.has(device.ip)) {
+			await this.fetchSettingsAndEnsureSchema(device.model, device.ip)
+			this.updateVariableValues()
+		}
+	}
+
+	/**
+	 * Merges a newly seen device into discoveredDevices and reconnects if it is
+	 * the configured device. A known MAC at a new IP is treated as a move.
+	 */
+	private async addDiscoveredDevice(device: DeviceInfo, source: string): Promise<void> {
+		// Sources without a MAC (mDNS, sweep) only learn it from the probe
+		if (device.mac && (await this.followAddressChange(device.mac, device.ip, source))) return
+		if (this.discoveredDevices.some((d) => d.ip === device.ip)) return
+
+		this.discoveredDevices = [...this.discoveredDevices, device]
+		logger.info(`Device found via ${source}: Model ${device.model} [${device.mac}] @ ${device.ip}`)
+
+		if (this.extraDevices.includes(device)) {
+			logger.info(`Additional device Model ${device.model} @ ${device.ip} is available — reconnecting`)
+			await this.syncExtraDevices()
+			await this.fetchFirmware(device)
+			this.updateUi()
+			return
+		}
+		if (device.ip !== this.host) return
+
+		logger.info(`Configured device Model ${device.model} @ ${device.ip} is available — reconnecting`)
+		await this.reconnectSelectedDevice()
+	}
+
+	/**
+	 * Runs the unicast sweep in the background, after initial discovery and again
+	 * when the sweep targets change (stopping a sweep still in progress). Each
+	 * device is merged as soon as it answers.
+	 */
+	private runSweep(): void {
+		this.sweepAbort?.abort()
+		const sweepAbort = new AbortController()
+		this.sweepAbort = sweepAbort
+
+		// Devices are merged one at a time, in the order they answered
+		let merging = Promise.resolve()
+		const targets = parseSweepTargets(String(this.config.sweepTargets ?? ''))
+		this.stController
+			.sweepDevices(targets, {
+				signal: sweepAbort.signal,
+				onFound: (device) => {
+					merging = merging
+						.then(async () => this.addDiscoveredDevice(device, 'unicast sweep'))
+						.catch((e) => {
+							logger.warn(`Failed to add swept device ${device.ip}: ${e}`)
+						})
+				},
+			})
+			.catch((e) => {
+				logger.warn(`Unicast sweep failed: ${e}`)
+			})
+	}
+
+	/**
+	 * Checks whether a discovered device with this MAC is known at a different IP.
+	 * If so, moves it to the new IP: revokes the old address, re-authorizes the new
+	 * one and, for the selected device, fetches its state again. Returns true if
+	 * the device had moved.
+	 */
+	private async followAddressChange(mac: string, newIp: string, source: string): Promise<boolean> {
+		const device = this.discoveredDevices.find((d) => d.mac?.toLowerCase() === mac.toLowerCase())
+		if (!device || device.ip === newIp) return false
+
+		const oldIp = device.ip
+		const wasSelected = oldIp === this.host
+		const wasAuthorized = this.stController.isDeviceAuthorized(oldIp)
+
+		logger.warn(`Address change: Model ${device.model} [${device.mac}] moved ${oldIp} → ${newIp} (seen via ${source})`)
+
+		// Update in place so resolveHost() (auto mode, by MAC) now returns the new IP
+		device.ip = newIp
+		this.unannouncedIps.delete(oldIp)
+
+		if (wasSelected && this.config.deviceMac) {
+			await this.verifyAuthorization(oldIp, newIp)
+			this.updateVariableValues()
+			if (this.stController.isDeviceAuthorized(newIp)) this.updateStatus(InstanceStatus.Ok)
+		} else {
+			this.stController.revokeDevice(oldIp)
+			if (wasAuthorized) this.stController.authorizeDevice(newIp)
+			if (this.managedExtraIps.has(oldIp)) {
+				await this.syncExtraDevices()
+				this.updateVariableValues()
+			}
+		}
+		return true
+	}
+
+	/**
+	 * A discovery source stopped seeing a device — drop it unless the other source
+	 * still sees it. Devices this instance controls stay: routed or swept devices
+	 * may never be announced at all, so only the keepalive decides they are lost.
+	 */
+	private onDeviceLost(ip: string): void {
+		const device = this.discoveredDevices.find((d) => d.ip === ip)
+		if (!device) return
+
+		const stillSeen =
+			this.backgroundDiscovery?.getDevices().some((d) => d.ip === ip) ||
+			this.mdnsBrowser?.getDevices().some((d) => d.ip === ip)
+		if (stillSeen) return
+
+		if (ip === this.host || this.managedExtraIps.has(ip)) {
+			logger.debug(`Model ${device.model} @ ${ip} no longer announced — connection health is left to the keepalive`)
+			this.unannouncedIps.add(ip)
+			return
+		}
+
+		this.discoveredDevices = this.discoveredDevices.filter((d) => d !== device)
+		this.stController.revokeDevice(device.ip)
+		logger.info(`Device lost: Model ${device.model} [${device.mac}] @ ${device.ip}`)
+	}
+
+	/**
+	 * Re-runs model resolution and authorization for the configured device after
+	 * it (re)appears, rebuilding the UI if the model wasn't known before.
+	 */
+	private async reconnectSelectedDevice(): Promise<void> {
+		const effectiveModel = resolveModel(this.config, this.discoveredDevices)
+		const modelChanged = effectiveModel !== this.activeModel
+		if (modelChanged) this.syncModel(effectiveModel)
+
+		const host = this.host
+		await this.verifyAuthorization('', host)
+		if (!this.stController.isDeviceAuthorized(host)) return
+
+		const device = this.discoveredDevices.find((d) => d.ip === host)
+		if (device && !device.firmwareMain) await this.fetchFirmware(device)
+
+		if (modelChanged) {
+			this.updateActions()
+			this.updateFeedbacks()
+			this.updatePresets()
+			this.updateVariableDefinitions()
+		}
+		this.updateVariableValues()
+		this.updateStatus(InstanceStatus.Ok)
+	}
+
+	/**
+	 * Sets up the additional devices selected in config: each gets its own model
+	 * profile in the controller, is authorized and has its settings fetched once.
+	 * Devices no longer selected (or no longer found) are released again — the
+	 * main device keeps its authorization even if it was an additional one before.
+	 */
+	private async syncExtraDevices(): Promise<void> {
+		const devices = this.extraDevices
+		const ips = new Set(devices.map((d) => d.ip))
+
+		for (const ip of this.managedExtraIps) {
+			if (ips.has(ip)) continue
+			this.stController.clearDeviceModel(ip)
+			if (ip !== this.host) this.stController.revokeDevice(ip)
+			logger.info(`No longer controlling additional device @ ${ip}`)
+		}
+
+		const previous = this.managedExtraIps
+		this.managedExtraIps = ips
+
+		await Promise.all(
+			devices.map(async (device) => {
+				const schema = getDeviceSchema(device.model)
+				const actions = Array.isArray(schema?.cmdSchema) ? schema.cmdSchema : []
+				this.stController.setDeviceModel(device.ip, device.model, actions, schema?.refreshAfterCommand ?? true)
+
+				const wasAuthorized = this.stController.isDeviceAuthorized(device.ip)
+				if (!wasAuthorized) this.stController.authorizeDevice(device.ip)
+				if (!wasAuthorized || !previous.has(device.ip)) {
+					logger.info(`Controlling additional device Model ${device.model} [${device.mac}] @ ${device.ip}`)
+					await this.fetchSettingsAndEnsureSchema(device.model, device.ip)
+				}
+			}),
+		)
+	}
+
 	// When module gets deleted
 	async destroy(): Promise<void> {
+		this.destroyed = true
+		this.sweepAbort?.abort()
+		this.stopBackgroundDiscovery()
+		this.healthMonitor?.stop()
+		this.settingsPoller?.stop()
 		this.stController?.close()
 		logger.debug('destroy')
 	}
 
 	async configUpdated(config: ModuleConfig): Promise<void> {
 		const previousHost = this.host
+		const sweepChanged = String(config.sweepTargets ?? '') !== String(this.config.sweepTargets ?? '')
 		this.config = config
+		if (sweepChanged && this.backgroundDiscovery) this.runSweep()
+		this.stController.setRetryPolicy(resolveRetryPolicy(config))
+		this.stController.setVerifyWrites(config.verifyWrites === true)
+		this.startHealthMonitor()
+		const previousInterface = this.localInterface
+		this.localInterface = resolveInterface(config)
+		this.stController.setInterface(this.localInterface)
+		if (this.backgroundDiscovery && this.localInterface !== previousInterface) {
+			// Listeners are bound to the old interface — restart them on the new one
+			this.stopBackgroundDiscovery()
+			this.startBackgroundDiscovery()
+		} else if (this.backgroundDiscovery) {
+			this.syncMdnsBrowser()
+		}
 		const effectiveModel = resolveModel(config, this.discoveredDevices)
 		this.syncModel(effectiveModel)
 
@@ -157,12 +554,10 @@ export default class ModuleInstance extends InstanceBase<ModuleTypes> {
 		// Re-verify authorization on every config change (model or IP).
 		// This handles switching from a valid device to an invalid one and back.
 		await this.verifyAuthorization(previousHost, newHost)
+		await this.syncExtraDevices()
 
 		// Rebuild UI after authorization state is settled
-		this.updateActions()
-		this.updateFeedbacks()
-		this.updateVariableDefinitions()
-		this.updateVariableValues()
+		this.updateUi()
 	}
 
 	/**
@@ -256,6 +651,98 @@ export default class ModuleInstance extends InstanceBase<ModuleTypes> {
 		}
 	}
 
+	/**
+	 * (Re)starts the CMD_BUS_GET keepalive with the current config. The main and
+	 * additional devices are pinged while authorized; only the selected device
+	 * drives the instance status.
+	 */
+	private startHealthMonitor(): void {
+		this.healthMonitor?.stop()
+		const { intervalMs, missThreshold } = resolveKeepalive(this.config)
+		this.healthMonitor = new HealthMonitor({
+			intervalMs,
+			missThreshold,
+			getTargets: () =>
+				[this.host, ...this.managedExtraIps].filter((ip) => ip && this.stController.isDeviceAuthorized(ip)),
+			ping: async (ip) => this.stController.sendHeartbeat(ip),
+			onStateChange: (ip, health, previous, misses) => {
+				this.onDeviceHealthChange(ip, health, previous, misses, missThreshold)
+			},
+		})
+		this.healthMonitor.start()
+	}
+
+	/**
+	 * Starts polling settings from devices whose model doesn't push its changes.
+	 * Targets and intervals are read from config on every tick, so config
+	 * changes need no restart.
+	 */
+	private startSettingsPoller(): void {
+		this.settingsPoller?.stop()
+		this.settingsPoller = new SettingsPoller({
+			getTargets: () => this.pollTargets(),
+			isBusy: (ip) => this.stController.getPendingCommandCount(ip) > 0,
+			poll: async (ip) => this.stController.requestAllSettings(ip, true),
+		})
+		this.settingsPoller.start()
+	}
+
+	/** The main and additional devices that are authorized and reachable, with their poll intervals */
+	private pollTargets(): PollTarget[] {
+		const devices = [
+			{ ip: this.host, model: this.activeModel },
+			...this.extraDevices.map((d) => ({ ip: d.ip, model: d.model })),
+		]
+		return devices
+			.filter(
+				({ ip }) => ip && this.stController.isDeviceAuthorized(ip) && this.healthMonitor?.getHealth(ip) !== 'lost',
+			)
+			.map(({ ip, model }) => ({
+				ip,
+				intervalMs: resolvePollInterval(this.config, getDeviceSchema(model)?.pollInterval),
+			}))
+	}
+
+	/** Maps keepalive health of the selected device onto the instance status. */
+	private onDeviceHealthChange(
+		ip: string,
+		health: DeviceHealth,
+		previous: DeviceHealth,
+		misses: number,
+		missThreshold: number,
+	): void {
+		if (ip !== this.host) {
+			// Additional devices don't affect the status, but come back with fresh state
+			const extra = this.extraDevices.find((d) => d.ip === ip)
+			if (extra && health === 'ok' && previous === 'lost') {
+				this.fetchSettingsAndEnsureSchema(extra.model, ip).catch((e) => {
+					logger.warn(`Failed to refresh settings after reconnect: ${e}`)
+				})
+			}
+			return
+		}
+
+		switch (health) {
+			case 'ok':
+				this.updateStatus(InstanceStatus.Ok)
+				if (previous === 'lost') {
+					// Device is back — its state may have changed while it was away
+					logger.info(`Device at ${ip} is reachable again — refreshing settings`)
+					this.fetchSettingsAndEnsureSchema(this.activeModel, ip).catch((e) => {
+						logger.warn(`Failed to refresh settings after reconnect: ${e}`)
+					})
+				}
+				break
+			case 'degraded':
+				this.updateStatus(InstanceStatus.Connecting, `Keepalive missed (${misses}/${missThreshold})`)
+				break
+			case 'lost':
+				logger.warn(`Device at ${ip} stopped answering keepalives`)
+				this.updateStatus(InstanceStatus.Disconnected, `No response from ${ip}`)
+				break
+		}
+	}
+
 	/**
 	 * Fetches all settings from the device. If no schema exists for the model,
 	 * creates one from the response and reloads the schema cache.
@@ -299,7 +786,8 @@ export default class ModuleInstance extends InstanceBase<ModuleTypes> {
 	}
 
 	getConfigFields(): SomeCompanionConfigField[] {
-		return GetConfigFields(this.discoveredDevices)
+		const savedExtras = Array.isArray(this.config?.extraDevices) ? this.config.extraDevices : []
+		return GetConfigFields(this.discoveredDevices, savedExtras)
 	}
 
 	/** Returns the effective host IP, resolved from MAC→IP via discoveredDevices (auto) or config.host (manual). */
@@ -312,6 +800,30 @@ export default class ModuleInstance extends InstanceBase<ModuleTypes> {
 		return this.discoveredDevices
 	}
 
+	/** Returns the additional devices from config that are currently discovered */
+	get extraDevices(): DeviceInfo[] {
+		return resolveExtraDevices(this.config, this.discoveredDevices)
+	}
+
+	/**
+	 * Returns the IP an action or feedback targets from its Device option:
+	 * '' (or no option) is the main device, otherwise the MAC of an additional
+	 * device. Returns '' if that device is not currently available.
+	 */
+	resolveDeviceIp(deviceMac: unknown): string {
+		if (!deviceMac) return this.host
+		return this.extraDevices.find((d) => d.mac === deviceMac)?.ip ?? ''
+	}
+
+	/** Rebuilds actions, feedbacks, presets and variables after the set of devices changed */
+	private updateUi(): void {
+		this.updateActions()
+		this.updateFeedbacks()
+		this.updatePresets()
+		this.updateVariableDefinitions()
+		this.updateVariableValues()
+	}
+
 	updateActions(): void {
 		UpdateActions(this)
 	}
@@ -320,6 +832,10 @@ export default class ModuleInstance extends InstanceBase<ModuleTypes> {
 		UpdateFeedbacks(this)
 	}
 
+	updatePresets(): void {
+		UpdatePresets(this)
+	}
+
 	updateVariableDefinitions(): void {
 		UpdateVariableDefinitions(this)
 	}
@@ -0,0 +1,92 @@
+import { createModuleLogger } from '@companion-module/base'
+
+const logger = createModuleLogger('SettingsPoller')
+
+/** How often due polls are checked — also the shortest effective poll interval */
+const TICK_MS = 1000
+
+export interface PollTarget {
+	ip: string
+	/** Time between polls of this device (ms); 0 or less = not polled */
+	intervalMs: number
+}
+
+export interface SettingsPollerOptions {
+	/** Devices to poll and their intervals — read on every tick, so config and device changes are picked up */
+	getTargets: () => PollTarget[]
+	/** True while commands to the device are queued or awaiting ACK */
+	isBusy: (ip: string) => boolean
+	/** Requests all settings from one device; the reply updates deviceState as any other */
+	poll: (ip: string) => Promise<unknown>
+}
+
+/**
+ * Periodically requests all settings from devices that don't push their changes,
+ * so front-panel or STcontroller changes still reach the feedbacks. A device
+ * with commands in flight is skipped and tried again a full interval later —
+ * the write's own refresh or push brings its state up to date meanwhile.
+ */
+export class SettingsPoller {
+	private readonly options: SettingsPollerOptions
+	private timer: ReturnType<typeof setInterval> | null = null
+
+	/** Per-IP time (ms since epoch) the next poll is due */
+	private nextPoll: Map<string, number> = new Map()
+
+	/** IPs with a poll still awaiting its reply — skipped until it settles */
+	private inFlight: Set<string> = new Set()
+
+	constructor(options: SettingsPollerOptions) {
+		this.options = options
+	}
+
+	start(): void {
+		if (this.timer) return
+		this.timer = setInterval(() => this.tick(), TICK_MS)
+		this.timer.unref?.()
+	}
+
+	stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer)
+			this.timer = null
+		}
+		this.nextPoll.clear()
+		this.inFlight.clear()
+	}
+
+	private tick(): void {
+		const now = Date.now()
+		const targets = this.options.getTargets().filter((t) => t.intervalMs > 0)
+
+		// Forget devices that are no longer polled (revoked, polling turned off)
+		for (const ip of Array.from(this.nextPoll.keys())) {
+			if (!targets.some((t) => t.ip === ip)) this.nextPoll.delete(ip)
+		}
+
+		for (const { ip, intervalMs } of targets) {
+			const due = this.nextPoll.get(ip)
+			if (due === undefined) {
+				// Settings were just fetched when the device was authorized — first poll one interval from now
+				this.nextPoll.set(ip, now + intervalMs)
+				logger.debug(`Polling ${ip} every ${intervalMs} ms`)
+				continue
+			}
+			if (now < due || this.inFlight.has(ip)) continue
+
+			this.nextPoll.set(ip, now + intervalMs)
+			if (this.options.isBusy(ip)) {
+				logger.debug(`Poll of ${ip} deferred — commands in flight`)
+				continue
+			}
+
+			this.inFlight.add(ip)
+			this.options
+				.poll(ip)
+				.catch((err) => {
+					logger.debug(`Settings poll of ${ip} failed: ${err}`)
+				})
+				.finally(() => this.inFlight.delete(ip))
+		}
+	}
+}
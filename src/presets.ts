@@ -0,0 +1,179 @@
+import { combineRgb, type CompanionPresetDefinitions, type CompanionPresetSection } from '@companion-module/base'
+import ModuleInstance from './main.js'
+import { MATCH_FEEDBACK_SUFFIX } from './build-commands.js'
+import { getDeviceSchemas } from './config.js'
+import { makeSettingId, getNormalizedSchemas } from './types.js'
+
+const WHITE = combineRgb(255, 255, 255)
+const BLACK = combineRgb(0, 0, 0)
+
+/** Button colour while the setting holds the preset's value */
+const SELECTED_BG = combineRgb(0, 153, 0)
+
+/** Selected colour for mic kill, alerting and indicator buttons */
+const ALERT_BG = combineRgb(204, 0, 0)
+
+/** One value a preset button sets (or shows): what the action sends and what the feedback compares */
+interface PresetChoice {
+	label: string
+	actionValue: number | boolean
+	matchValue: number
+}
+
+/** One channel of a setting — a combination of its busCh and idAdd choices */
+interface PresetChannel {
+	key: string
+	label: string
+	options: Record<string, number>
+}
+
+/**
+ * Values a preset can be made for: the choices of a dropdown, or Off/On for a
+ * checkbox. Numbers, colours and text have no fixed values, so get no presets.
+ */
+function presetChoices(setting: any): PresetChoice[] {
+	const valueOption = (setting.options ?? []).find((o: any) => o.id === 'value')
+	if (valueOption?.type === 'dropdown' && Array.isArray(valueOption.choices)) {
+		return valueOption.choices.map((c: any) => ({ label: String(c.label), actionValue: c.id, matchValue: c.id }))
+	}
+	if (valueOption?.type === 'checkbox') {
+		return [
+			{ label: 'Off', actionValue: false, matchValue: 0 },
+			{ label: 'On', actionValue: true, matchValue: 1 },
+		]
+	}
+	return []
+}
+
+/** Every combination of the setting's channel dropdowns (busCh, idAdd) — one entry if it has none */
+function presetChannels(setting: any): PresetChannel[] {
+	let channels: PresetChannel[] = [{ key: '', label: '', options: {} }]
+
+	for (const optionId of ['busCh', 'idAdd']) {
+		const option = (setting.options ?? []).find((o: any) => o.id === optionId)
+		if (option?.type !== 'dropdown' || !Array.isArray(option.choices)) continue
+
+		channels = channels.flatMap((channel) =>
+			option.choices.map((c: any) => ({
+				key: `${channel.key}_${optionId}${c.id}`,
+				label: channel.label ? `${channel.label} ${c.label}` : String(c.label),
+				options: { ...channel.options, [optionId]: c.id },
+			})),
+		)
+	}
+
+	return channels
+}
+
+/**
+ * Build Companion presets from the active model's schema: one button per value
+ * of every dropdown or checkbox setting, grouped by setting and channel, with
+ * the setting's action and its "matches" feedback already attached. Mic kill,
+ * alerting and read-only indicators get sections of their own.
+ */
+export function UpdatePresets(self: ModuleInstance): void {
+	const schemas = getNormalizedSchemas(getDeviceSchemas())
+	const presets: CompanionPresetDefinitions = {}
+	const structure: CompanionPresetSection[] = []
+
+	const model = self.activeModel
+	const cmdSchema: any[] = schemas[model]?.cmdSchema ?? []
+
+	const micKillSection: CompanionPresetSection = { id: 'micKill', name: 'Mic Kill', definitions: [] }
+	const alertingSection: CompanionPresetSection = { id: 'alerting', name: 'Alerting', definitions: [] }
+	const indicatorSection: CompanionPresetSection = {
+		id: 'indicators',
+		name: 'Indicators',
+		description: 'Read-only status from the device',
+		definitions: [],
+	}
+	const settingSections: CompanionPresetSection[] = []
+
+	// ---------------------------------------------
+	// ✅ MIC KILL (ONLY IF THE MODEL SUPPORTS IT)
+	// ---------------------------------------------
+
+	if (cmdSchema.some((a: any) => a.name.includes('Kill'))) {
+		const presetId = `${model}_micKill`
+		presets[presetId] = {
+			type: 'simple',
+			name: 'Mic Kill',
+			style: { text: 'MIC\\nKILL', size: 'auto', color: WHITE, bgcolor: ALERT_BG },
+			steps: [{ down: [{ actionId: `${model}_micKill`, options: {} }], up: [] }],
+			feedbacks: [],
+		}
+		;(micKillSection.definitions as any[]).push({ id: presetId, type: 'simple', name: 'Mic Kill', presets: [presetId] })
+	}
+
+	// ---------------------------------------------
+	// ✅ ONE BUTTON PER VALUE, GROUPED BY SETTING AND CHANNEL
+	// ---------------------------------------------
+
+	for (const setting of cmdSchema) {
+		const choices = presetChoices(setting)
+		if (choices.length === 0) continue
+
+		const settingId = makeSettingId(model, setting.cmd_id, setting.id)
+		const readonly = setting.readonly === true
+
+		let section: CompanionPresetSection
+		let selectedBg = ALERT_BG
+		if (readonly) section = indicatorSection
+		else if (setting.name.includes('Kill')) section = micKillSection
+		else if (/alert/i.test(setting.name)) section = alertingSection
+		else {
+			section = { id: settingId, name: setting.name, definitions: [] }
+			settingSections.push(section)
+			selectedBg = SELECTED_BG
+		}
+
+		for (const channel of presetChannels(setting)) {
+			const groupPresets: string[] = []
+
+			for (const choice of choices) {
+				const presetId = `${settingId}${channel.key}_${choice.matchValue}`
+				const text = [channel.label, setting.name, choice.label].filter((t) => t).join('\\n')
+
+				presets[presetId] = {
+					type: 'simple',
+					name: `${channel.label ? `${channel.label}: ` : ''}${choice.label}`,
+					style: { text, size: 'auto', color: WHITE, bgcolor: BLACK },
+					steps: [
+						{
+							down: readonly
+								? []
+								: [{ actionId: settingId, options: { ...channel.options, value: choice.actionValue } }],
+							up: [],
+						},
+					],
+					feedbacks: [
+						{
+							feedbackId: `${settingId}${MATCH_FEEDBACK_SUFFIX}`,
+							options: { ...channel.options, operator: 'eq', value: choice.matchValue, values: [] },
+							style: { bgcolor: selectedBg, color: WHITE },
+						},
+					],
+				}
+				groupPresets.push(presetId)
+			}
+
+			// Shared sections name each group after its setting; a setting's own section only needs the channel
+			const groupName =
+				section.id === settingId
+					? channel.label || setting.name
+					: [setting.name, channel.label].filter((t) => t).join(' — ')
+			;(section.definitions as any[]).push({
+				id: `${settingId}${channel.key}`,
+				type: 'simple',
+				name: groupName,
+				presets: groupPresets,
+			})
+		}
+	}
+
+	for (const section of [micKillSection, alertingSection, indicatorSection, ...settingSections]) {
+		if (section.definitions.length > 0) structure.push(section)
+	}
+
+	self.setPresetDefinitions(structure, presets)
+}
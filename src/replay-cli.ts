@@ -0,0 +1,69 @@
+/**
+ * Command-line front end for the capture replay tool.
+ *
+ *   yarn build
+ *   yarn replay <capture.pcapng | dump.txt> <model> [--json] [--verbose] [--schema-out <file>]
+ *
+ *   --json        print the full result as JSON instead of a readable summary
+ *   --verbose     also print the module's own log output
+ *   --schema-out  run every Get All Settings reply through the schema updater and
+ *                 write the resulting model JSON to <file>
+ */
+import { parseArgs } from 'util'
+
+const { values, positionals } = parseArgs({
+	allowPositionals: true,
+	options: {
+		json: { type: 'boolean', default: false },
+		verbose: { type: 'boolean', default: false },
+		'schema-out': { type: 'string' },
+	},
+})
+
+if (positionals.length !== 2) {
+	console.error(
+		'Usage: replay <capture.pcapng | dump.txt> <model> [--json] [--verbose] [--schema-out <file>]\n' +
+			'Replays captured Studio-T / Dante packets through the module with the given model schema.',
+	)
+	process.exitCode = 2
+} else {
+	await run(positionals[0], positionals[1])
+}
+
+async function run(inputPath: string, model: string): Promise<void> {
+	// Module loggers write to this sink — keep them quiet unless asked, so the report stays readable.
+	// Must be in place before the module code loads, as config.ts logs while resolving the devices folder.
+	const globalWithLogger = globalThis as { COMPANION_LOGGER?: (source: string, level: string, message: string) => void }
+	globalWithLogger.COMPANION_LOGGER = (source, level, message) => {
+		if (values.verbose) console.error(`[${level.toUpperCase()}]${source ? ` [${source}]` : ''} ${message}`)
+		else if (level === 'error') console.error(`[ERROR] ${message}`)
+	}
+
+	const { loadReplayInput, replayCapture } = await import('./replay.js')
+	const { saveModelJsonPretty } = await import('./settingsParser.js')
+
+	const inputs = loadReplayInput(inputPath)
+	const result = replayCapture(inputs, model, { updateSchema: values['schema-out'] !== undefined })
+
+	if (values['schema-out'] && result.updatedSchema) {
+		saveModelJsonPretty(values['schema-out'], result.updatedSchema)
+	}
+
+	if (values.json) {
+		console.log(JSON.stringify(result, null, 2))
+	} else {
+		console.log(`Replayed ${result.steps.length} packet(s) as Model ${result.model}`)
+		for (const step of result.steps) {
+			console.log(`\n#${step.index} ${step.srcIp} — ${step.command}`)
+			for (const device of step.devices) {
+				console.log(`  device: Model ${device.model} "${device.modelName ?? ''}" @ ${device.ip}`)
+			}
+			for (const line of step.settings) console.log(`  ${line}`)
+			for (const change of step.stateChanges) {
+				console.log(`  state: ${change.key} ${change.from ?? '(unset)'} → ${change.to}`)
+			}
+			if (step.feedbacks.length > 0) console.log(`  feedbacks: ${step.feedbacks.join(', ')}`)
+		}
+		if (values['schema-out']) console.log(`\nUpdated schema written to ${values['schema-out']}`)
+	}
+}
@@ -0,0 +1,201 @@
+import fs from 'fs'
+import { StController } from './stcontroller.js'
+import { readCaptureFile } from './capture.js'
+import { getDeviceSchema, getDeviceSchemas } from './config.js'
+import {
+	formatParsedSetting,
+	parseGetAllSettingsForModel,
+	parseGetAllSettingsWithDetection,
+	parseSettingsResponse,
+	updateModelJsonFromSettings,
+	type StAction,
+	type StModelJson,
+} from './settingsParser.js'
+import {
+	CMD_GET_ALL_SETTINGS,
+	CMD_SETTINGS_PUSH,
+	getCommandName,
+	getNormalizedSchemas,
+	type DeviceInfo,
+} from './types.js'
+import { DANTE_MSG_INFO_RESPONSE } from './dante.js'
+
+/**
+ * Offline replay of captured traffic through StController's receive path, so
+ * schema and parser work can be checked without a device on the network.
+ */
+
+/** One received datagram to replay */
+export type ReplayInput = { srcIp: string; msg: Buffer }
+
+export type StateChange = { key: string; from: number | undefined; to: number }
+
+/** What one replayed packet did */
+export type ReplayStep = {
+	index: number
+	srcIp: string
+	command: string
+	settings: string[] // Decoded settings, formatted like the RX log lines
+	stateChanges: StateChange[]
+	feedbacks: string[] // Feedback IDs the module would have re-checked
+	devices: DeviceInfo[] // Devices reported by Dante info responses
+}
+
+export type ReplayResult = {
+	model: string
+	steps: ReplayStep[]
+	finalState: Record<string, Record<string, number>> // ip → state key → value
+	updatedSchema?: StModelJson // Only when replayed with updateSchema
+}
+
+const FALLBACK_SRC_IP = '127.0.0.1'
+
+/**
+ * Loads the packets to replay from a pcap / pcapng capture or a hex dump.
+ * Only traffic towards the module is kept — requests sent to a device's
+ * port 8700 would otherwise be parsed as if the device had sent them.
+ */
+export function loadReplayInput(filePath: string): ReplayInput[] {
+	const head = Buffer.alloc(4)
+	const fd = fs.openSync(filePath, 'r')
+	try {
+		fs.readSync(fd, head, 0, 4, 0)
+	} finally {
+		fs.closeSync(fd)
+	}
+	const magic = head.readUInt32LE(0)
+	const isCapture = [0x0a0d0d0a, 0xa1b2c3d4, 0xd4c3b2a1, 0xa1b23c4d, 0x4d3cb2a1].includes(magic)
+
+	if (!isCapture) return parseHexDump(fs.readFileSync(filePath, 'utf8'))
+
+	return readCaptureFile(filePath)
+		.filter((p) => p.direction !== 'out' && p.dst.port !== 8700)
+		.map((p) => ({ srcIp: p.src.address, msg: p.payload }))
+}
+
+/**
+ * Parses a text dump with one packet per line. Each line needs at least a full
+ * 24-byte header of hex (spaces or colons between bytes are fine); the first
+ * IPv4 address before it, if any, is taken as the source. Lines copied straight
+ * from the module's debug log ("Received packet from 10.0.0.5: ffff…") work as-is,
+ * and its outgoing "Sending packet" / "not sent" lines are skipped.
+ */
+export function parseHexDump(text: string): ReplayInput[] {
+	const inputs: ReplayInput[] = []
+	for (const line of text.split(/\r?\n/)) {
+		if (line.trim().startsWith('#')) continue
+		if (/Sending packet|not sent/.test(line)) continue
+
+		const hexMatch = line.match(/[0-9a-fA-F]{2}(?:[ :]?[0-9a-fA-F]{2}){23,}/)
+		if (!hexMatch || hexMatch.index === undefined) continue
+
+		const before = line.slice(0, hexMatch.index)
+		const ipMatch = before.match(/\b(\d{1,3}(?:\.\d{1,3}){3})\b/)
+		inputs.push({
+			srcIp: ipMatch?.[1] ?? FALLBACK_SRC_IP,
+			msg: Buffer.from(hexMatch[0].replace(/[ :]/g, ''), 'hex'),
+		})
+	}
+	return inputs
+}
+
+/**
+ * Feeds packets through an offline StController loaded with the given model's
+ * schema and records, per packet, the decoded settings, deviceState changes
+ * and feedback IDs fired. With updateSchema, every CMD_GET_ALL_SETTINGS reply is
+ * also run through updateModelJsonFromSettings, as the Get All Settings action does.
+ */
+export function replayCapture(
+	inputs: ReplayInput[],
+	model: string,
+	options: { updateSchema?: boolean } = {},
+): ReplayResult {
+	const schema = getDeviceSchema(model)
+	if (!schema && !options.updateSchema) throw new Error(`Model "${model}" not found in device schemas`)
+	const actions: StAction[] = Array.isArray(schema?.cmdSchema) ? schema.cmdSchema : []
+
+	const controller = new StController({ offline: true })
+	controller.setModel(model, actions, false)
+
+	let current: ReplayStep | null = null
+	controller.setFeedbackCallback((feedbackId) => current?.feedbacks.push(feedbackId))
+	controller.setDeviceInfoCallback((device) => current?.devices.push(device))
+
+	let updatedSchema: StModelJson | undefined = schema
+		? structuredClone(schema)
+		: { model, refreshAfterCommand: true, cmdSchema: [] }
+	const allModels = getNormalizedSchemas(getDeviceSchemas())
+	const steps: ReplayStep[] = []
+	const ips = new Set<string>()
+
+	try {
+		inputs.forEach(({ srcIp, msg }, index) => {
+			const step: ReplayStep = {
+				index,
+				srcIp,
+				command: describePacket(msg),
+				settings: [],
+				stateChanges: [],
+				feedbacks: [],
+				devices: [],
+			}
+			current = step
+			ips.add(srcIp)
+
+			const before = controller.getDeviceState(srcIp)
+			controller.replayPacket(msg, srcIp)
+			const after = controller.getDeviceState(srcIp)
+
+			for (const [key, to] of after) {
+				const from = before.get(key)
+				if (from !== to) step.stateChanges.push({ key, from, to })
+			}
+
+			const cmdId = studioTCmd(msg)
+			try {
+				if (cmdId === CMD_GET_ALL_SETTINGS || cmdId === CMD_SETTINGS_PUSH) {
+					const settings =
+						cmdId === CMD_SETTINGS_PUSH ? parseSettingsResponse(model, msg) : parseGetAllSettingsForModel(model, msg)
+					step.settings = settings.map((s) => formatParsedSetting(s, actions))
+				}
+				if (cmdId === CMD_GET_ALL_SETTINGS && options.updateSchema && updatedSchema) {
+					const { settings, detectedSectioned } = parseGetAllSettingsWithDetection(model, msg)
+					if (detectedSectioned !== null) updatedSchema = { ...updatedSchema, sectioned: detectedSectioned }
+					updatedSchema = updateModelJsonFromSettings(updatedSchema, settings, allModels)
+				}
+			} catch (e) {
+				step.settings.push(`parse failed: ${e}`)
+			}
+
+			steps.push(step)
+			current = null
+		})
+	} finally {
+		controller.close()
+	}
+
+	const finalState: ReplayResult['finalState'] = {}
+	for (const ip of ips) {
+		const state = controller.getDeviceState(ip)
+		if (state.size > 0) finalState[ip] = Object.fromEntries(state)
+	}
+
+	return { model, steps, finalState, updatedSchema: options.updateSchema ? updatedSchema : undefined }
+}
+
+/** Command ID of a Studio-T packet (response flag stripped), or undefined for anything else. */
+function studioTCmd(msg: Buffer): number | undefined {
+	if (msg.length < 27 || msg.subarray(16, 24).toString('ascii') !== 'Studio-T') return undefined
+	if (msg[24] !== 0x5a) return undefined
+	return msg[25] & 0x7f
+}
+
+function describePacket(msg: Buffer): string {
+	const cmdId = studioTCmd(msg)
+	if (cmdId !== undefined) return getCommandName(cmdId)
+	if (msg.length >= 4 && msg.readUInt16BE(0) === 0xffff && msg.readUInt16BE(2) === DANTE_MSG_INFO_RESPONSE) {
+		return 'Dante Info Response'
+	}
+	if (msg.length >= 2 && msg.readUInt16BE(0) === 0xfffe) return 'Dante Announce'
+	return 'Other'
+}
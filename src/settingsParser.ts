@@ -50,6 +50,7 @@ export type StModelJson = {
 	model: string
 	sectioned?: boolean
 	refreshAfterCommand?: boolean
+	pollInterval?: number // Default seconds between settings polls, for models that don't push changes
 	cmdSchema: StAction[]
 }
 
@@ -97,6 +98,21 @@ function getModelConfig(model: string): { sectioned: boolean; rgbIds: Set<number
 	return { sectioned, rgbIds }
 }
 
+/* ---------------------------------------------------------
+ *  CMD_MIC_PRE POSITIONS
+ * --------------------------------------------------------*/
+
+/**
+ * Schema entries behind the positional values of a CMD_MIC_PRE section or write,
+ * in position order: entries for CMD_MIC_PRE (0x02) or CMD_MIC_PRE_BUS (0x12)
+ * with a fixed busCh, sorted by id.
+ */
+export function getMicPrePositions(actions: StAction[]): StAction[] {
+	return actions
+		.filter((a) => (a.cmd_id === CMD_MIC_PRE || a.cmd_id === CMD_MIC_PRE_BUS) && a.busCh !== undefined)
+		.sort((a, b) => a.id - b.id)
+}
+
 /* ---------------------------------------------------------
  *  FIND THE REAL 5A PAYLOAD INDEX
  * --------------------------------------------------------*/
@@ -213,9 +229,7 @@ export function parseGetAllSettings_sectioned(buf: Buffer, model: string): Parse
 			const rawBytes = buf.subarray(p + 3, sectionEnd)
 
 			const schema = getDeviceSchema(model)
-			const micPreEntries = (schema?.cmdSchema ?? [])
-				.filter((a: StAction) => (a.cmd_id === CMD_MIC_PRE || a.cmd_id === CMD_MIC_PRE_BUS) && a.busCh !== undefined)
-				.sort((a: StAction, b: StAction) => a.id - b.id)
+			const micPreEntries = getMicPrePositions(schema?.cmdSchema ?? [])
 
 			for (let i = 0; i < rawBytes.length; i++) {
 				const entry = micPreEntries[i]
@@ -751,7 +765,7 @@ export function updateModelJsonFromSettings(
 
 export function saveModelJsonPretty(filePath: string, jsonObj: StModelJson): void {
 	try {
-		// Ensure proper key ordering: model, sectioned (if present), refreshAfterCommand, cmdSchema
+		// Ensure proper key ordering: model, sectioned (if present), refreshAfterCommand, pollInterval, cmdSchema
 		const orderedObj: any = { model: jsonObj.model }
 
 		// Add sectioned key if present (right after model)
@@ -763,6 +777,9 @@ export function saveModelJsonPretty(filePath: string, jsonObj: StModelJson): voi
 		if ('refreshAfterCommand' in jsonObj) {
 			orderedObj.refreshAfterCommand = jsonObj.refreshAfterCommand
 		}
+		if ('pollInterval' in jsonObj) {
+			orderedObj.pollInterval = jsonObj.pollInterval
+		}
 		if ('cmdSchema' in jsonObj) {
 			orderedObj.cmdSchema = jsonObj.cmdSchema.map((entry: any) => {
 				// Enforce key order within each schema entry: cmd_id, id, busCh, name, options
@@ -15,9 +15,12 @@ import {
 	makeSettingId,
 	toHex,
 	bytesToHex,
+	DEFAULT_RETRY_POLICY,
 	type DeviceInfo,
+	type RetryPolicy,
 } from './types.js'
 import {
+	getMicPrePositions,
 	parseGetAllSettingsForModel,
 	parseSettingsResponse,
 	formatParsedSetting,
@@ -30,38 +33,156 @@ import {
 	discoverDevices,
 	buildDanteInfoRequest,
 	getMacForDestination,
+	getMacForLocalAddress,
 	getLocalAddressForDestination,
 } from './dante.js'
+import { STUDIO_T_STATUS_ACK, StudioTDeviceError, StudioTWriteMismatchError, describeStudioTError } from './errors.js'
+import { PacketCapture, type CaptureDirection, type Endpoint } from './capture.js'
 
 const logger = createModuleLogger('StController')
 
+/**
+ * Header bytes 4-5 held this constant before sequence numbers were introduced. A
+ * device that hard-codes or copies it must never look like it echoes our sequence,
+ * so it is never sent as one.
+ */
+const FIXED_HEADER_SEQ = 0x07e1
+
+/** Consecutive sequence matches before a device is trusted to echo sequence numbers */
+const SEQ_ECHO_CONFIRMATIONS = 3
+
+/** How many recently sent sequence numbers an unmatched reply may carry and still count as stale */
+const STALE_SEQ_WINDOW = 64
+
+/** Reads that may run alongside a device's command queue once it is known to echo sequence numbers */
+const BYPASS_QUEUE_COMMANDS: ReadonlySet<number> = new Set([CMD_GET_ALL_SETTINGS, CMD_GET_FIRMWARE, CMD_BUS_GET])
+
+/**
+ * Per-command adjustments layered on top of the instance retry policy, whatever
+ * retry count is configured. Reads are idempotent, so they retry harder; a factory
+ * reset must never be sent twice. Documented next to the Retries config field.
+ */
+const COMMAND_RETRY_OVERRIDES: ReadonlyMap<number, Partial<RetryPolicy>> = new Map([
+	[CMD_GET_FIRMWARE, { retries: 5 }],
+	[CMD_GET_ALL_SETTINGS, { retries: 5 }],
+	[CMD_RESET_DEVICE, { retries: 0 }],
+	// The health monitor counts missed heartbeats itself — a retry would just hide a miss
+	[CMD_BUS_GET, { retries: 0 }],
+])
+
+/**
+ * One request waiting for its reply. Several can be outstanding for the same
+ * device and command; handleIncoming picks the one a reply belongs to.
+ */
+type PendingAck = {
+	seq: number // Sequence number written into the request header (bytes 4-5)
+	busCh?: number // Bus/channel and setting the request addressed, for matching echoed replies
+	settingId?: number
+	resolve: (buf: Buffer) => void
+	reject: (e: Error) => void
+	timer: NodeJS.Timeout
+}
+
+/** A verified write waiting for the device's [busCh][settingId][value] echo */
+type PendingEcho = {
+	busCh?: number
+	settingId: number
+	applied?: number[] // Set once the echo arrived
+	notify?: () => void
+}
+
+/**
+ * A write waiting in a device's send queue. Until it is sent, a newer write to the
+ * same setting replaces its value and waits on the same ACK instead of queueing.
+ */
+type QueuedWrite = {
+	value: unknown
+	waiters: { resolve: (buf: Buffer) => void; reject: (e: Error) => void }[]
+}
+
+/**
+ * A setting shown with the value of a write the device hasn't confirmed yet.
+ * baseline is the value to fall back to if the write fails: the device's last
+ * reported value, or the value of the last write it acknowledged.
+ */
+type OptimisticWrite = {
+	baseline: number | undefined
+	inFlight: number // Sends to this setting not yet ACKed or failed
+}
+
+/** Schema a device's traffic is decoded and encoded with */
+type DeviceModelProfile = {
+	model: string
+	actions: StAction[]
+	refreshAfterCommand: boolean
+}
+
 export class StController {
 	private readonly defaultPort: number = 8700
 	private readonly multicastGroup = '224.0.0.231'
 	private readonly rxPort = 8702
 
-	private txSocket: dgram.Socket
+	private txSocket!: dgram.Socket // (re)created by openTxSocket()
 	private rxSocket: dgram.Socket // for receiving responses (8702)
-	private pendingAcks: Map<
-		string,
-		{ resolve: (buf: Buffer) => void; reject: (e: Error) => void; timer: NodeJS.Timeout }
-	> = new Map()
+	/** Outstanding requests per `${ip}:${cmdId}`, oldest first */
+	private pendingAcks: Map<string, PendingAck[]> = new Map()
+
+	/** Next header sequence number — one per command, reused across its retries */
+	private nextSeq = 0x0001
+
+	/** Consecutive replies per device that echoed the sequence of an outstanding request */
+	private seqEchoCounts: Map<string, number> = new Map()
+
+	/**
+	 * Devices confirmed (SEQ_ECHO_CONFIRMATIONS matches in a row) to echo our header
+	 * sequence number. For these a reply carrying a recently sent sequence that matches
+	 * no outstanding request is a late answer to one that already timed out, and is
+	 * dropped instead of resolving a newer request.
+	 */
+	private seqEchoIps: Set<string> = new Set()
 	private joinedInterfaces: Set<string> = new Set() // local IPs we've joined multicast on
 
-	/** Serializes outgoing commands so each waits for ACK before the next is sent */
-	private sendQueue: Promise<void> = Promise.resolve()
+	/**
+	 * One FIFO per device IP — serializes outgoing commands to that device so each
+	 * waits for its ACK before the next is sent, without blocking other devices.
+	 */
+	private sendQueues: Map<string, Promise<void>> = new Map()
+
+	/** Commands queued/in-flight per device IP, to defer requestAllSettings until that device is idle */
+	private pendingCommandCounts: Map<string, number> = new Map()
+
+	/** Writes not yet sent, by `${ip}:${cmdId}:${busCh}:${settingId}` — see QueuedWrite */
+	private queuedWrites: Map<string, QueuedWrite> = new Map()
+
+	/** When true, CMD_DEV_SPEC / CMD_MIC_PRE_BUS writes also wait for the device's echo (see setVerifyWrites) */
+	private verifyWrites = false
 
-	/** Tracks how many commands are queued/in-flight, to defer requestAllSettings */
-	private pendingCommandCount = 0
+	/** Verified writes awaiting their echo, by `${ip}:${cmdId}` */
+	private pendingEchoes: Map<string, PendingEcho[]> = new Map()
+
+	/** Unconfirmed writes already reflected in deviceState, by `${ip}|${stateKey}` */
+	private optimisticWrites: Map<string, OptimisticWrite> = new Map()
 
 	/** Resolves once txSocket is bound and ready to send */
-	private txReady: Promise<void>
+	private txReady!: Promise<void>
+
+	/**
+	 * Local IPv4 address of the interface selected in config, or undefined to let
+	 * the OS route. Used for multicast joins, TX socket binding and source MACs.
+	 */
+	private localInterface?: string
 
 	/** Active device model and action definitions for settings decoding */
 	private model: string = ''
 	private actions: StAction[] = []
 	private refreshAfterCommand: boolean = true // Default to true (most devices need it)
 
+	/** Per-IP model profiles for additional managed devices; IPs not listed use the active model above */
+	private deviceModels: Map<string, DeviceModelProfile> = new Map()
+
+	/** Retry policy for unacknowledged commands — COMMAND_RETRY_OVERRIDES apply on top */
+	private retryPolicy: RetryPolicy = { ...DEFAULT_RETRY_POLICY }
+
 	/**
 	 * Known state of every setting per device IP.
 	 * Keyed by IP → Map of "${cmdId}/${settingId}" → current value byte.
@@ -84,24 +205,45 @@ export class StController {
 	/** Callback to trigger feedback updates when state changes */
 	private feedbackCallback?: (feedbackId: string) => void
 
+	/**
+	 * Callback fired with the changed settings of a device, by deviceState key, and
+	 * their new values (undefined = unknown) — once per settings reply, not per setting
+	 */
+	private settingCallback?: (ip: string, changes: Map<string, number | undefined>) => void
+
+	/**
+	 * Callback fired for every Studio-T device info response (0x0170), including
+	 * ones answering another controller's query — used to notice IP changes.
+	 */
+	private deviceInfoCallback?: (device: DeviceInfo) => void
+
+	/** Studio-T packets dropped for a CRC mismatch, per source IP */
+	private corruptPackets: Map<string, number> = new Map()
+
+	/** Callback fired with the new per-device total whenever a corrupt packet is dropped */
+	private corruptPacketCallback?: (ip: string, count: number) => void
+
+	/** Callback fired whenever a device NACKs a command */
+	private errorCallback?: (error: StudioTDeviceError) => void
+
 	/** Cache of local interface MAC bytes per destination IP, to avoid repeated OS lookups */
 	private macCache: Map<string, number[]> = new Map()
 
-	constructor() {
-		logger.info('StController initialized')
+	/** Active packet capture, if one was started with startCapture() */
+	private capture: PacketCapture | null = null
 
-		// Send socket — bind to ephemeral port. Responses always go to rxSocket on
-		// port 8702 (Dante hardcodes the response destination port to 8702).
-		this.txSocket = dgram.createSocket({ type: 'udp4', reuseAddr: true })
-		this.txReady = new Promise<void>((resolve) => {
-			this.txSocket.bind(0, () => {
-				logger.debug(`TX socket bound to port ${(this.txSocket.address() as { port: number }).port}`)
-				resolve()
-			})
-		})
-		this.txSocket.on('error', (err) => {
-			logger.error(`TX socket error: ${err}`)
-		})
+	/** True when constructed for offline replay — sockets are created but never bound */
+	private readonly offline: boolean
+
+	/**
+	 * @param options.offline - Don't bind any sockets; packets are fed in through
+	 *   replayPacket() instead (used by the capture replay tool)
+	 */
+	constructor(options: { offline?: boolean } = {}) {
+		this.offline = options.offline ?? false
+		logger.info(`StController initialized${this.offline ? ' (offline)' : ''}`)
+
+		this.openTxSocket()
 
 		// Receive socket - bind to all addresses so kernel can deliver multicast packets
 		this.rxSocket = dgram.createSocket({ type: 'udp4', reuseAddr: true })
@@ -121,6 +263,7 @@ export class StController {
 		})
 
 		this.rxSocket.on('message', (msg, rinfo) => {
+			this.recordPacket('in', msg, { address: rinfo.address, port: rinfo.port }, this.rxEndpoint())
 			try {
 				this.handleIncoming(msg, rinfo.address)
 			} catch (_e) {
@@ -128,13 +271,76 @@ export class StController {
 			}
 		})
 
+		if (this.offline) return
+
 		// Bind to wildcard so kernel can deliver multicast packets for joined interfaces
 		this.rxSocket.bind({ address: '0.0.0.0', port: this.rxPort }, () => {
 			logger.debug(`RX socket bound to 0.0.0.0:${this.rxPort}`)
 		})
 	}
 
+	/**
+	 * Send socket — bind to an ephemeral port, on the selected interface if any.
+	 * Responses always go to rxSocket on port 8702 (Dante hardcodes the response
+	 * destination port to 8702).
+	 */
+	private openTxSocket(): void {
+		const socket = dgram.createSocket({ type: 'udp4', reuseAddr: true })
+		this.txSocket = socket
+		if (this.offline) {
+			this.txReady = Promise.resolve()
+			return
+		}
+		this.txReady = new Promise<void>((resolve) => {
+			socket.bind({ address: this.localInterface, port: 0 }, () => {
+				const addr = socket.address() as { address: string; port: number }
+				logger.debug(`TX socket bound to ${addr.address}:${addr.port}`)
+				resolve()
+			})
+		})
+		socket.on('error', (err) => {
+			logger.error(`TX socket error: ${err}`)
+		})
+	}
+
+	/**
+	 * Select the local interface (by its IPv4 address) for all Studio-T and Dante
+	 * traffic, or pass undefined to follow OS routing. Rebinds the TX socket and
+	 * drops multicast memberships joined on other interfaces.
+	 */
+	public setInterface(localAddr: string | undefined): void {
+		const next = localAddr || undefined
+		if (next === this.localInterface) return
+		this.localInterface = next
+		logger.info(`Network interface: ${next ?? 'automatic (OS routing)'}`)
+
+		for (const joined of Array.from(this.joinedInterfaces)) {
+			try {
+				this.rxSocket.dropMembership(this.multicastGroup, joined)
+			} catch {
+				/* ignore */
+			}
+		}
+		this.joinedInterfaces.clear()
+		this.macCache.clear()
+
+		const previous = this.txSocket
+		this.openTxSocket()
+		try {
+			previous.close()
+		} catch {
+			/* ignore */
+		}
+	}
+
+	/** Source MAC for outgoing requests — the selected interface's, if one is selected. */
+	private getSourceMac(): Buffer | undefined {
+		const mac = this.localInterface ? getMacForLocalAddress(this.localInterface) : null
+		return mac ? Buffer.from(mac) : undefined
+	}
+
 	public close(): void {
+		void this.stopCapture()
 		try {
 			for (const localAddr of Array.from(this.joinedInterfaces)) {
 				try {
@@ -158,6 +364,64 @@ export class StController {
 		}
 	}
 
+	// ── Packet capture ────────────────────────────────────────────────────────
+
+	/**
+	 * Starts recording every Studio-T and Dante packet this controller sends or
+	 * receives to a pcapng file. Replaces any capture already running.
+	 */
+	public async startCapture(filePath: string): Promise<void> {
+		await this.stopCapture()
+		this.capture = new PacketCapture(filePath)
+		logger.info(`Packet capture started: ${filePath}`)
+	}
+
+	/** Stops the running capture and returns its file path, or undefined if none was running. */
+	public async stopCapture(): Promise<string | undefined> {
+		const capture = this.capture
+		if (!capture) return undefined
+		this.capture = null
+		await capture.close()
+		logger.info(`Packet capture stopped: ${capture.packetCount} packet(s) written to ${capture.filePath}`)
+		return capture.filePath
+	}
+
+	/** Path of the running capture, or undefined if none is running. */
+	public getCaptureFile(): string | undefined {
+		return this.capture?.filePath
+	}
+
+	/**
+	 * Adds a packet to the running capture (no-op when not capturing). Public so
+	 * sockets owned elsewhere — e.g. the background heartbeat listener — can be recorded too.
+	 */
+	public recordPacket(direction: CaptureDirection, msg: Buffer, src: Endpoint, dst: Endpoint): void {
+		this.capture?.record(direction, msg, src, dst)
+	}
+
+	/**
+	 * Feeds a captured packet through the receive path exactly as if it had just
+	 * arrived on the RX socket from srcIp. Used to replay captures offline.
+	 */
+	public replayPacket(msg: Buffer, srcIp: string): void {
+		this.handleIncoming(msg, srcIp)
+	}
+
+	/** Local end of outgoing packets — the TX socket's bound address and ephemeral port. */
+	private txEndpoint(): Endpoint {
+		try {
+			const addr = this.txSocket.address()
+			return { address: addr.address, port: addr.port }
+		} catch {
+			return { address: this.localInterface ?? '0.0.0.0', port: 0 }
+		}
+	}
+
+	/** Local end of incoming packets — the OS doesn't report which local address a datagram hit. */
+	private rxEndpoint(): Endpoint {
+		return { address: this.localInterface ?? '0.0.0.0', port: this.rxPort }
+	}
+
 	/**
 	 * Provide the active device model and action definitions so incoming messages
 	 * can be decoded into human-readable names. Call from main.ts after config load.
@@ -168,6 +432,30 @@ export class StController {
 		this.refreshAfterCommand = refreshAfterCommand
 	}
 
+	/**
+	 * Provide the model and action definitions for one specific device, for
+	 * instances that manage more than one. Overrides setModel() for that IP.
+	 */
+	public setDeviceModel(ip: string, model: string, actions: StAction[], refreshAfterCommand: boolean = true): void {
+		this.deviceModels.set(ip, { model, actions, refreshAfterCommand })
+	}
+
+	/** Drop the model profile of a device that is no longer managed */
+	public clearDeviceModel(ip: string): void {
+		this.deviceModels.delete(ip)
+	}
+
+	/** Model profile used to decode and encode traffic for a device */
+	private profileFor(ip: string): DeviceModelProfile {
+		return (
+			this.deviceModels.get(ip) ?? {
+				model: this.model,
+				actions: this.actions,
+				refreshAfterCommand: this.refreshAfterCommand,
+			}
+		)
+	}
+
 	/**
 	 * Set callback to trigger when device state changes (for feedbacks).
 	 * Call from main.ts to wire up checkFeedbacks.
@@ -176,6 +464,71 @@ export class StController {
 		this.feedbackCallback = callback
 	}
 
+	/**
+	 * Set callback to trigger when setting values in deviceState change. Receives the
+	 * exact state keys (with busCh and idAdd offset) — used for variables. All changes
+	 * from one settings reply arrive in a single call.
+	 */
+	public setSettingCallback(callback: (ip: string, changes: Map<string, number | undefined>) => void): void {
+		this.settingCallback = callback
+	}
+
+	/**
+	 * Set callback to trigger when a device refuses a command (NACK).
+	 * Call from main.ts to publish the last error as a variable.
+	 */
+	public setErrorCallback(callback: (error: StudioTDeviceError) => void): void {
+		this.errorCallback = callback
+	}
+
+	/**
+	 * Set callback to trigger when a packet fails its CRC check.
+	 * Call from main.ts to publish the corrupt-packet counter as a variable.
+	 */
+	public setCorruptPacketCallback(callback: (ip: string, count: number) => void): void {
+		this.corruptPacketCallback = callback
+	}
+
+	/** Number of Studio-T packets from this device dropped for a bad CRC since startup. */
+	public getCorruptPacketCount(ip: string): number {
+		return this.corruptPackets.get(ip) ?? 0
+	}
+
+	/**
+	 * Set callback to trigger on every Studio-T device info response.
+	 * Call from main.ts to follow devices whose IP address changes.
+	 */
+	public setDeviceInfoCallback(callback: (device: DeviceInfo) => void): void {
+		this.deviceInfoCallback = callback
+	}
+
+	/**
+	 * Set the retry policy used when a command is not acknowledged.
+	 * The per-command COMMAND_RETRY_OVERRIDES are applied on top.
+	 */
+	public setRetryPolicy(policy: RetryPolicy): void {
+		this.retryPolicy = { ...policy }
+		logger.debug(
+			`Retry policy: retries=${policy.retries}, ackTimeout=${policy.ackTimeoutMs}ms, ` +
+				`delay=${policy.retryDelayMs}ms, backoff=${policy.backoff}, maxDelay=${policy.maxRetryDelayMs}ms`,
+		)
+	}
+
+	/**
+	 * Enable or disable verified writes. A verified CMD_DEV_SPEC or CMD_MIC_PRE_BUS
+	 * write waits for the echo the device sends after its ACK and fails with a
+	 * StudioTWriteMismatchError if the applied value differs from the request.
+	 * The echoed value goes straight into deviceState, so no settings refresh follows.
+	 */
+	public setVerifyWrites(enabled: boolean): void {
+		this.verifyWrites = enabled
+	}
+
+	/** Returns the effective retry policy for a command — instance policy with any per-command override applied. */
+	public getRetryPolicy(cmdId: number): RetryPolicy {
+		return { ...this.retryPolicy, ...COMMAND_RETRY_OVERRIDES.get(cmdId) }
+	}
+
 	/** Returns true if the device at the given IP has been authorized to receive commands. */
 	public isDeviceAuthorized(ip: string): boolean {
 		return this.authorizedIps.has(ip)
@@ -192,6 +545,12 @@ export class StController {
 		this.authorizedIps.delete(ip)
 		this.deviceState.delete(ip)
 		this.macCache.delete(ip)
+		this.seqEchoIps.delete(ip) // a different device may take over this address
+		this.seqEchoCounts.delete(ip)
+		this.deviceModels.delete(ip)
+		for (const key of this.optimisticWrites.keys()) {
+			if (key.startsWith(`${ip}|`)) this.optimisticWrites.delete(key)
+		}
 		logger.debug(`Revoked device at ${ip}`)
 	}
 
@@ -223,7 +582,8 @@ export class StController {
 			const run = async () => {
 				await this.ensureMembershipFor(ip)
 				await this.txReady
-				const query = buildDanteInfoRequest()
+				const query = buildDanteInfoRequest(this.getSourceMac())
+				this.recordPacket('out', query, this.txEndpoint(), { address: ip, port: this.defaultPort })
 				this.txSocket.send(query, this.defaultPort, ip, (err) => {
 					if (err) {
 						logger.warn(`Probe to ${ip} failed: ${err.message}`)
@@ -245,8 +605,9 @@ export class StController {
 	 * Send a CMD_GET_ALL_SETTINGS (0x0a) request to the device and store the response
 	 * in deviceState. Returns the raw response buffer for parsing.
 	 */
-	public async requestAllSettings(deviceIp: string): Promise<Buffer> {
-		logger.info(`Requesting all settings from ${deviceIp}`)
+	public async requestAllSettings(deviceIp: string, quiet = false): Promise<Buffer> {
+		if (quiet) logger.debug(`Polling settings from ${deviceIp}`)
+		else logger.info(`Requesting all settings from ${deviceIp}`)
 		const response = await this.sendAwaitAck(CMD_GET_ALL_SETTINGS, undefined, undefined, undefined, deviceIp, false)
 		// deviceState is populated by logStPayload when the CMD_GET_ALL_SETTINGS response arrives
 		return response
@@ -280,13 +641,83 @@ export class StController {
 			await this.txReady
 			// discoverDevices() in dante.ts handles the announce listening and query sending.
 			// Responses come back to rxSocket → handleIncoming() → discoveryListeners.
-			await discoverDevices(this.txSocket, async (destIp) => this.ensureMembershipFor(destIp), timeoutMs)
+			await discoverDevices(
+				this.txSocket,
+				async (destIp) => this.ensureMembershipFor(destIp),
+				timeoutMs,
+				this.localInterface,
+				(direction, msg, src, dst) => this.recordPacket(direction, msg, src, dst),
+			)
 			return foundDevices
 		} finally {
 			this.discoveryListeners.delete(DISCOVERY_KEY)
 		}
 	}
 
+	/**
+	 * Probes a list of addresses with unicast Dante info requests, for devices
+	 * that multicast discovery can't see (routed VLANs, filtered multicast).
+	 * Probes go out at no more than `probesPerSecond`, with at most `concurrency`
+	 * awaiting an answer, so a large range doesn't flood the network. Each device
+	 * is reported through `onFound` as soon as it answers; the returned list holds
+	 * all of them. Aborting `signal` stops sending further probes.
+	 */
+	public async sweepDevices(
+		ips: string[],
+		options: {
+			onFound?: (device: DeviceInfo) => void
+			signal?: AbortSignal
+			probesPerSecond?: number
+			concurrency?: number
+			probeTimeoutMs?: number
+		} = {},
+	): Promise<DeviceInfo[]> {
+		const { onFound, signal, probesPerSecond = 50, concurrency = 32, probeTimeoutMs = 1000 } = options
+		if (ips.length === 0) return []
+		logger.info(`Unicast sweep of ${ips.length} address(es) at up to ${probesPerSecond} probe(s)/s`)
+
+		// Probe start times are spaced evenly, shared by all workers
+		const spacingMs = 1000 / Math.max(1, probesPerSecond)
+		let nextStart = Date.now()
+		const waitForSlot = async () => {
+			const now = Date.now()
+			const start = Math.max(now, nextStart)
+			nextStart = start + spacingMs
+			if (start <= now || signal?.aborted) return
+			// Waiting workers wake up as soon as the sweep is aborted
+			await new Promise<void>((resolve) => {
+				const done = () => {
+					clearTimeout(timer)
+					signal?.removeEventListener('abort', done)
+					resolve()
+				}
+				const timer = setTimeout(done, start - now)
+				signal?.addEventListener('abort', done, { once: true })
+			})
+		}
+
+		const found: DeviceInfo[] = []
+		let next = 0
+		const worker = async () => {
+			while (next < ips.length && !signal?.aborted) {
+				const ip = ips[next++]
+				await waitForSlot()
+				if (signal?.aborted) return
+				const device = await this.probeDevice(ip, probeTimeoutMs)
+				if (device && !signal?.aborted) {
+					logger.debug(`Sweep: Model ${device.model} [${device.mac}] @ ${ip}`)
+					found.push(device)
+					onFound?.(device)
+				}
+			}
+		}
+		await Promise.all(Array.from({ length: Math.min(concurrency, ips.length) }, worker))
+
+		if (signal?.aborted) logger.info(`Unicast sweep stopped — ${found.length} device(s) answered so far`)
+		else logger.info(`Unicast sweep complete — ${found.length} device(s) answered`)
+		return found
+	}
+
 	/**
 	 * Requests device firmware version via Studio-T protocol (CMD_GET_FIRMWARE).
 	 * Returns the firmware version string (e.g., "3.01", "2.2", "1.05").
@@ -320,12 +751,13 @@ export class StController {
 	}
 
 	/**
-	 * Joins the multicast response group on the interface that routes to destIp.
+	 * Joins the multicast response group on the interface that routes to destIp
+	 * (or on the selected interface, if one is configured).
 	 * Only joins the specific interface used to reach the device, and only once per interface.
 	 */
 	private async ensureMembershipFor(destIp: string): Promise<void> {
 		try {
-			const localAddr = await getLocalAddressForDestination(destIp)
+			const localAddr = this.localInterface ?? (await getLocalAddressForDestination(destIp))
 			if (!localAddr) {
 				logger.warn(`Could not determine local address for destination ${destIp}`)
 				return
@@ -356,29 +788,301 @@ export class StController {
 		destIp: string,
 		addLen = true,
 	): Promise<Buffer> {
-		this.pendingCommandCount++
+		// Rapid changes to one setting (e.g. an encoder being turned) collapse into the
+		// latest value while the earlier write is still waiting for its turn in the queue
+		const coalesceKey =
+			settingId !== undefined && value !== undefined ? `${destIp}:${cmdId}:${busCh ?? '-'}:${settingId}` : undefined
+		const queued = coalesceKey ? this.queuedWrites.get(coalesceKey) : undefined
+		if (queued) {
+			logger.debug(
+				`Coalesced ${getCommandName(cmdId)} write to ${destIp}: ${String(queued.value)} superseded by ${String(value)}`,
+			)
+			queued.value = value
+			this.applyOptimisticWrite(destIp, cmdId, busCh, settingId!, value, false)
+			return new Promise<Buffer>((resolve, reject) => queued.waiters.push({ resolve, reject }))
+		}
+
+		this.pendingCommandCounts.set(destIp, (this.pendingCommandCounts.get(destIp) ?? 0) + 1)
+		const settled = () => {
+			const remaining = (this.pendingCommandCounts.get(destIp) ?? 1) - 1
+			if (remaining > 0) this.pendingCommandCounts.set(destIp, remaining)
+			else this.pendingCommandCounts.delete(destIp)
+			return remaining
+		}
+
+		// Show the new value right away — rolled back if the device doesn't take it
+		const optimisticKey = coalesceKey
+			? this.applyOptimisticWrite(destIp, cmdId, busCh, settingId!, value, true)
+			: undefined
+
 		return new Promise<Buffer>((resolve, reject) => {
-			this.sendQueue = this.sendQueue.then(async () =>
-				this._sendAwaitAck(cmdId, busCh, settingId, value, destIp, addLen)
-					.then((buf) => {
-						this.pendingCommandCount--
+			const write: QueuedWrite = { value, waiters: [{ resolve, reject }] }
+			if (coalesceKey) this.queuedWrites.set(coalesceKey, write)
+
+			const run = async () => {
+				// The value is fixed from here on — later writes queue behind this one
+				if (coalesceKey && this.queuedWrites.get(coalesceKey) === write) this.queuedWrites.delete(coalesceKey)
+
+				const verify =
+					this.verifyWrites &&
+					settingId !== undefined &&
+					write.value !== undefined &&
+					(cmdId === CMD_DEV_SPEC || cmdId === CMD_MIC_PRE_BUS)
+				const send = verify
+					? this.sendVerifiedWrite(cmdId, busCh, settingId, write.value, destIp, addLen)
+					: this._sendAwaitAck(cmdId, busCh, settingId, write.value, destIp, addLen).then((buf) => ({
+							buf,
+							applied: undefined,
+						}))
+
+				return send
+					.then(({ buf, applied }) => {
+						if (optimisticKey) {
+							this.settleOptimisticWrite(optimisticKey, destIp, cmdId, settingId!, applied ?? write.value)
+						}
+						if (applied) this.applyConfirmedValue(destIp, cmdId, busCh, settingId!, applied)
+						const remaining = settled()
 						// Only trigger requestAllSettings after a write (SET) command, not a read/poll.
-						// A write always has a value; reads (GET, BUS_GET) never do.
-						if (this.pendingCommandCount === 0 && this.refreshAfterCommand && value !== undefined) {
+						// A write always has a value; reads (GET, BUS_GET) never do. A verified
+						// write already knows the applied value.
+						if (remaining === 0 && this.profileFor(destIp).refreshAfterCommand && value !== undefined && !applied) {
 							this.requestAllSettings(destIp).catch((err) => {
 								logger.warn(`Failed to refresh settings after command: ${err}`)
 							})
 						}
-						resolve(buf)
+						for (const waiter of write.waiters) waiter.resolve(buf)
 					})
 					.catch((err) => {
-						this.pendingCommandCount--
-						reject(err instanceof Error ? err : new Error(String(err)))
-					}),
-			)
+						// A clamped value was still applied — show what the device actually holds
+						const applied = err instanceof StudioTWriteMismatchError ? err.applied : undefined
+						if (optimisticKey) this.settleOptimisticWrite(optimisticKey, destIp, cmdId, settingId!, applied)
+						if (applied) this.applyConfirmedValue(destIp, cmdId, busCh, settingId!, applied)
+						settled()
+						const error = err instanceof Error ? err : new Error(String(err))
+						for (const waiter of write.waiters) waiter.reject(error)
+					})
+			}
+
+			// Reads don't change device state, so once the device is known to echo sequence
+			// numbers (replies can't be confused) they skip the queue and run alongside it.
+			// A settings read still waits behind pending writes, so its reply reflects them.
+			if (
+				BYPASS_QUEUE_COMMANDS.has(cmdId) &&
+				this.seqEchoIps.has(destIp) &&
+				!(cmdId === CMD_GET_ALL_SETTINGS && this.hasPendingWrites(destIp))
+			) {
+				void run()
+				return
+			}
+
+			const queue = this.sendQueues.get(destIp) ?? Promise.resolve()
+			const next = queue.then(run)
+			this.sendQueues.set(destIp, next)
+			// Drop the queue entry once drained so the map doesn't grow with every IP ever contacted
+			void next.then(() => {
+				if (this.sendQueues.get(destIp) === next) this.sendQueues.delete(destIp)
+			})
 		})
 	}
 
+	/**
+	 * Sends a write and waits for both its ACK and the echo of the applied value.
+	 * The echo waiter is registered before sending, as the echo can follow the ACK
+	 * immediately. Resolves with the ACK and the applied value bytes.
+	 */
+	private async sendVerifiedWrite(
+		cmdId: number,
+		busCh: number | undefined,
+		settingId: number,
+		value: unknown,
+		destIp: string,
+		addLen: boolean,
+	): Promise<{ buf: Buffer; applied: number[] }> {
+		const key = `${destIp}:${cmdId}`
+		const echo: PendingEcho = { busCh, settingId }
+		const waiting = this.pendingEchoes.get(key)
+		if (waiting) waiting.push(echo)
+		else this.pendingEchoes.set(key, [echo])
+
+		try {
+			const buf = await this._sendAwaitAck(cmdId, busCh, settingId, value, destIp, addLen)
+			const applied =
+				echo.applied ??
+				(await new Promise<number[]>((resolve, reject) => {
+					const timer = setTimeout(() => {
+						reject(
+							new Error(`No echo of ${getCommandName(cmdId)} ${toHex(settingId)} from ${destIp} to verify the write`),
+						)
+					}, this.getRetryPolicy(cmdId).ackTimeoutMs)
+					echo.notify = () => {
+						clearTimeout(timer)
+						resolve(echo.applied!)
+					}
+				}))
+
+			const requested = StController.buildValueBytes(value)
+			if (applied.length !== requested.length || applied.some((b, i) => b !== requested[i])) {
+				throw new StudioTWriteMismatchError(requested, applied, cmdId, settingId, destIp)
+			}
+			logger.debug(`Verified ${getCommandName(cmdId)} ${toHex(settingId)} = ${bytesToHex(applied)} on ${destIp}`)
+			return { buf, applied }
+		} finally {
+			const list = this.pendingEchoes.get(key)
+			const idx = list?.indexOf(echo) ?? -1
+			if (idx >= 0) list!.splice(idx, 1)
+			if (list?.length === 0) this.pendingEchoes.delete(key)
+		}
+	}
+
+	/**
+	 * Puts a value the device confirmed into deviceState and fires its feedback,
+	 * unless a newer write to the same setting is still on its way.
+	 */
+	private applyConfirmedValue(
+		ip: string,
+		cmdId: number,
+		busCh: number | undefined,
+		settingId: number,
+		valueBytes: number[],
+	): void {
+		const stateKey = makeSettingId(this.profileFor(ip).model, cmdId, settingId, busCh)
+		const optimistic = this.optimisticWrites.get(`${ip}|${stateKey}`)
+		if (optimistic && optimistic.inFlight > 0) return
+
+		const value = StController.packStateValue(valueBytes)
+		if (!this.deviceState.has(ip)) this.deviceState.set(ip, new Map())
+		const ipState = this.deviceState.get(ip)!
+		if (ipState.get(stateKey) === value) return
+		ipState.set(stateKey, value)
+		this.notifySettingChanged(ip, cmdId, settingId, stateKey, value)
+	}
+
+	/** Number of commands queued or awaiting ACK for a device. */
+	public getPendingCommandCount(destIp: string): number {
+		return this.pendingCommandCounts.get(destIp) ?? 0
+	}
+
+	/**
+	 * Writes the value of a queued write into deviceState and fires its feedback,
+	 * remembering the previous value for settleOptimisticWrite(). newSend is false
+	 * for a write coalesced into one already queued, which shares that send.
+	 * Returns the optimisticWrites key, or undefined if the value can't be shown.
+	 */
+	private applyOptimisticWrite(
+		destIp: string,
+		cmdId: number,
+		busCh: number | undefined,
+		settingId: number,
+		value: unknown,
+		newSend: boolean,
+	): string | undefined {
+		const { model } = this.profileFor(destIp)
+		if (!model || !this.authorizedIps.has(destIp)) return undefined
+
+		let newValue: number
+		try {
+			newValue = StController.packStateValue(StController.buildValueBytes(value))
+		} catch {
+			return undefined // unsupported value — the send itself reports the error
+		}
+
+		const stateKey = makeSettingId(model, cmdId, settingId, busCh)
+		if (!this.deviceState.has(destIp)) this.deviceState.set(destIp, new Map())
+		const ipState = this.deviceState.get(destIp)!
+
+		const key = `${destIp}|${stateKey}`
+		let entry = this.optimisticWrites.get(key)
+		if (!entry) {
+			entry = { baseline: ipState.get(stateKey), inFlight: 0 }
+			this.optimisticWrites.set(key, entry)
+		}
+		if (newSend) entry.inFlight++
+
+		if (ipState.get(stateKey) !== newValue) {
+			ipState.set(stateKey, newValue)
+			this.notifySettingChanged(destIp, cmdId, settingId, stateKey, newValue)
+		}
+		return key
+	}
+
+	/**
+	 * Settles one send of an optimistic write. ackedValue is the value the device
+	 * acknowledged, or undefined if the send failed. Once the last send to the
+	 * setting has settled after a failure, deviceState goes back to the baseline.
+	 */
+	private settleOptimisticWrite(
+		key: string,
+		destIp: string,
+		cmdId: number,
+		settingId: number,
+		ackedValue: unknown,
+	): void {
+		const entry = this.optimisticWrites.get(key)
+		if (!entry) return
+		entry.inFlight--
+
+		const failed = ackedValue === undefined
+		if (!failed) entry.baseline = StController.packStateValue(StController.buildValueBytes(ackedValue))
+		if (entry.inFlight > 0) return
+		this.optimisticWrites.delete(key)
+		if (!failed) return
+
+		const ipState = this.deviceState.get(destIp)
+		const stateKey = key.slice(destIp.length + 1)
+		if (!ipState || ipState.get(stateKey) === entry.baseline) return
+
+		logger.warn(`Write to ${destIp} failed — rolling ${stateKey} back to ${entry.baseline ?? '(unknown)'}`)
+		if (entry.baseline === undefined) ipState.delete(stateKey)
+		else ipState.set(stateKey, entry.baseline)
+		this.notifySettingChanged(destIp, cmdId, settingId, stateKey, entry.baseline)
+	}
+
+	/**
+	 * Values for every position of a CMD_MIC_PRE write, with the target position
+	 * replaced by the new value. A CMD_MIC_PRE write sets all positions at once,
+	 * so an unknown position would silently overwrite e.g. phantom power. The
+	 * position count comes from the schema (getMicPrePositions). If any position
+	 * is unknown, settings are fetched first; if it is still unknown the write is
+	 * refused. deviceState already holds the optimistic values of earlier queued
+	 * writes (see applyOptimisticWrite), so consecutive writes chain correctly.
+	 */
+	private async buildMicPrePositions(
+		destIp: string,
+		busCh: number,
+		settingId: number,
+		value: unknown,
+	): Promise<number[]> {
+		const { model, actions } = this.profileFor(destIp)
+		const entries = getMicPrePositions(actions)
+		const target = entries.findIndex((e) => e.cmd_id === CMD_MIC_PRE && e.id === settingId)
+		if (target < 0) {
+			throw new Error(
+				`Refusing ${getCommandName(CMD_MIC_PRE)} write to ${destIp}: setting ${toHex(settingId)} is not a mic preamp position of Model ${model}`,
+			)
+		}
+
+		const stateKeys = entries.map((e) => makeSettingId(model, e.cmd_id, e.id, busCh))
+		const unknown = () =>
+			stateKeys.filter((key, i) => i !== target && this.deviceState.get(destIp)?.get(key) === undefined)
+
+		if (unknown().length > 0) {
+			logger.info(`Mic preamp state of ${destIp} bus ${busCh} not known yet — fetching settings before writing`)
+			// Called from inside this device's send queue — go round it, or the fetch would wait on this write
+			await this._sendAwaitAck(CMD_GET_ALL_SETTINGS, undefined, undefined, undefined, destIp, false).catch((e) => {
+				logger.warn(`Failed to fetch settings from ${destIp}: ${e}`)
+			})
+			const missing = unknown()
+			if (missing.length > 0) {
+				throw new Error(
+					`Refusing ${getCommandName(CMD_MIC_PRE)} write to ${destIp}: current value of ${missing.join(', ')} could not be confirmed`,
+				)
+			}
+		}
+
+		const ipState = this.deviceState.get(destIp)
+		return stateKeys.map((key, i) => (i === target ? Number(value) : ipState!.get(key)!))
+	}
+
 	private async _sendAwaitAck(
 		cmdId: number,
 		busCh: number | undefined,
@@ -387,28 +1091,25 @@ export class StController {
 		destIp: string,
 		addLen = true,
 	): Promise<Buffer> {
-		const timeoutMs = 2000
+		const policy = this.getRetryPolicy(cmdId)
 
 		const dataBlock: number[] = []
 		if (settingId !== undefined) dataBlock.push(settingId & 0xff)
 		if (value !== undefined) dataBlock.push(...StController.buildValueBytes(value))
 
+		// Reject commands to unverified devices before anything else talks to them (a mic
+		// preamp write would fetch settings first) — log the would-be data at debug so the
+		// bytes are visible even when the device is offline.
+		if (!this.authorizedIps.has(destIp)) {
+			logger.debug(`${getCommandName(cmdId)} (not sent — device not authorized) to ${destIp}: ${bytesToHex(dataBlock)}`)
+			throw new Error(`Device at ${destIp} is not authorized — verify the IP and model match before sending commands`)
+		}
+
 		const payloadBody: number[] = [0x5a, cmdId & 0xff]
 
 		if (cmdId === CMD_MIC_PRE && busCh !== undefined && settingId !== undefined && value !== undefined) {
-			// Positional format: [0x5a] [0x02] [busCh] [val0] [val1] [val2] ...
-			// Read all positions from deviceState, override the target position with new value.
-			// Also update deviceState optimistically so consecutive CMD_MIC_PRE commands chain correctly.
-			if (!this.deviceState.has(destIp)) this.deviceState.set(destIp, new Map())
-			const ipState = this.deviceState.get(destIp)!
-			const numPositions = 3 // gain, electret/phantom, unknown
-			const positions: number[] = []
-			for (let i = 0; i < numPositions; i++) {
-				const stateKey = makeSettingId(this.model, CMD_MIC_PRE, i, busCh)
-				const val = i === settingId ? Number(value) : (ipState.get(stateKey) ?? 0)
-				positions.push(val)
-				ipState.set(stateKey, val) // optimistic update
-			}
+			// Positional format: [0x5a] [0x02] [busCh] [val0] [val1] ...
+			const positions = await this.buildMicPrePositions(destIp, busCh, settingId, value)
 			payloadBody.push(busCh & 0xff, ...positions)
 		} else {
 			if (busCh !== undefined) payloadBody.push(busCh & 0xff)
@@ -428,36 +1129,71 @@ export class StController {
 				busCh,
 				valueBytes,
 			}
-			logger.info(`TX ${destIp} | ${formatParsedSetting(setting, this.actions)}`)
+			logger.info(`TX ${destIp} | ${formatParsedSetting(setting, this.profileFor(destIp).actions)}`)
+		} else if (cmdId === CMD_BUS_GET || cmdId === CMD_GET_ALL_SETTINGS) {
+			// Keepalive and settings polls are high-frequency noise — log at debug only.
+			// A deliberate requestAllSettings() logs its own line at info.
+			logger.debug(`TX ${destIp} | ${getCommandName(cmdId)}`)
 		} else {
 			logger.info(`TX ${destIp} | ${getCommandName(cmdId)}`)
 		}
 
-		// Reject commands to unverified devices — log the would-be packet first at debug
-		// so the bytes are visible even when the device is offline.
-		if (!this.authorizedIps.has(destIp)) {
-			logger.debug(`Packet (not sent — device not authorized) to ${destIp}: ${payloadWithCrc.toString('hex')}`)
-			throw new Error(`Device at ${destIp} is not authorized — verify the IP and model match before sending commands`)
-		}
-
 		// Ensure we are listening for replies on the interface that will receive them
 		await this.ensureMembershipFor(destIp)
 
 		const totalLen = 24 + payloadWithCrc.length
-		const header = await this.buildHeader(totalLen, destIp)
+		const seq = this.allocateSeq()
+		const header = await this.buildHeader(totalLen, destIp, seq)
 		const packet = Buffer.concat([header, payloadWithCrc])
 
-		logger.debug(`Sending packet to ${destIp}: ${packet.toString('hex')}`)
+		// A late reply to an earlier attempt carries the same sequence and still counts
+		const pending = { seq, busCh, settingId }
+		const maxAttempts = Math.max(0, policy.retries) + 1
+		let lastError: Error | undefined
 
-		const key = `${destIp}:${cmdId}`
+		for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+			if (attempt > 1) {
+				const delayMs = StController.retryDelayFor(policy, attempt - 1)
+				logger.warn(
+					`No ACK for ${getCommandName(cmdId)} from ${destIp} (${lastError?.message}) — retrying in ${delayMs} ms (attempt ${attempt}/${maxAttempts})`,
+				)
+				await new Promise((resolve) => setTimeout(resolve, delayMs))
+			}
+
+			logger.debug(`Sending packet to ${destIp} (attempt ${attempt}/${maxAttempts}): ${packet.toString('hex')}`)
 
+			try {
+				return await this.sendOnce(packet, pending, destIp, cmdId, policy.ackTimeoutMs)
+			} catch (e) {
+				// The device answered and refused the command — re-sending won't change its mind
+				if (e instanceof StudioTDeviceError) throw e
+				lastError = e instanceof Error ? e : new Error(String(e))
+			}
+		}
+
+		throw new Error(`${lastError?.message ?? 'Send failed'} — gave up after ${maxAttempts} attempt(s)`)
+	}
+
+	/**
+	 * Sends one packet and waits for the matching ACK. Rejects on socket error
+	 * or if no ACK arrives within timeoutMs; retrying is left to the caller.
+	 */
+	private async sendOnce(
+		packet: Buffer,
+		match: Pick<PendingAck, 'seq' | 'busCh' | 'settingId'>,
+		destIp: string,
+		cmdId: number,
+		timeoutMs: number,
+	): Promise<Buffer> {
+		const key = `${destIp}:${cmdId}`
 		return new Promise<Buffer>((resolve, reject) => {
 			const timer = setTimeout(() => {
-				this.pendingAcks.delete(key)
-				reject(new Error(`Timeout waiting for ACK from Model ${this.model} at ${destIp}:8700`))
+				this.removePendingAck(key, entry)
+				reject(new Error(`Timeout waiting for ACK from Model ${this.profileFor(destIp).model} at ${destIp}:8700`))
 			}, timeoutMs)
 
-			this.pendingAcks.set(key, {
+			const entry: PendingAck = {
+				...match,
 				resolve: (buf) => {
 					clearTimeout(timer)
 					resolve(buf)
@@ -467,11 +1203,15 @@ export class StController {
 					reject(err)
 				},
 				timer,
-			})
+			}
+			const waiting = this.pendingAcks.get(key)
+			if (waiting) waiting.push(entry)
+			else this.pendingAcks.set(key, [entry])
 
+			this.recordPacket('out', packet, this.txEndpoint(), { address: destIp, port: this.defaultPort })
 			this.txSocket.send(packet, this.defaultPort, destIp, (err) => {
 				if (err) {
-					this.pendingAcks.delete(key)
+					this.removePendingAck(key, entry)
 					clearTimeout(timer)
 					reject(new Error(err.message ?? String(err)))
 				}
@@ -479,6 +1219,95 @@ export class StController {
 		})
 	}
 
+	/** Next header sequence number, skipping 0 and the old fixed header value */
+	private allocateSeq(): number {
+		const seq = this.nextSeq
+		do {
+			this.nextSeq = (this.nextSeq + 1) & 0xffff
+		} while (this.nextSeq === 0 || this.nextSeq === FIXED_HEADER_SEQ)
+		return seq
+	}
+
+	/** True while a write to the device is queued or awaiting its ACK */
+	private hasPendingWrites(ip: string): boolean {
+		for (const [key, entry] of this.optimisticWrites) {
+			if (key.startsWith(`${ip}|`) && entry.inFlight > 0) return true
+		}
+		return false
+	}
+
+	private removePendingAck(key: string, entry: PendingAck): void {
+		const waiting = this.pendingAcks.get(key)
+		if (!waiting) return
+		const idx = waiting.indexOf(entry)
+		if (idx >= 0) waiting.splice(idx, 1)
+		if (waiting.length === 0) this.pendingAcks.delete(key)
+	}
+
+	/**
+	 * Picks (and removes) the outstanding request a reply belongs to:
+	 *   1. the request whose header sequence the reply echoes;
+	 *   2. failing that, the request whose bus/setting the reply data echoes ([busCh][settingId]...);
+	 *   3. failing that, the oldest outstanding request for that command.
+	 * Once a device has echoed SEQ_ECHO_CONFIRMATIONS sequence numbers in a row, an
+	 * unmatched reply carrying one we sent recently is a late answer to a request that
+	 * already timed out, and is dropped. Any other mismatch means the device doesn't
+	 * echo after all — it loses its confirmation and steps 2-3 apply again.
+	 */
+	private takePendingAck(srcIp: string, cmdId: number, replySeq: number, data: Buffer): PendingAck | undefined {
+		const key = `${srcIp}:${cmdId}`
+		const waiting = this.pendingAcks.get(key)
+		if (!waiting?.length) return undefined
+
+		let idx = waiting.findIndex((p) => p.seq === replySeq)
+		if (idx >= 0) {
+			const matches = (this.seqEchoCounts.get(srcIp) ?? 0) + 1
+			this.seqEchoCounts.set(srcIp, matches)
+			if (matches >= SEQ_ECHO_CONFIRMATIONS && !this.seqEchoIps.has(srcIp)) {
+				this.seqEchoIps.add(srcIp)
+				logger.debug(`${srcIp} echoes header sequence numbers — matching replies by sequence`)
+			}
+		} else {
+			const age = (this.nextSeq - replySeq) & 0xffff
+			if (this.seqEchoIps.has(srcIp) && replySeq !== FIXED_HEADER_SEQ && age > 0 && age <= STALE_SEQ_WINDOW) {
+				logger.debug(`RX ${srcIp} | stale ${getCommandName(cmdId)} reply (seq ${toHex(replySeq, 4)}) dropped`)
+				return undefined
+			}
+			if (this.seqEchoIps.delete(srcIp)) {
+				logger.debug(`${srcIp} stopped echoing header sequence numbers — matching replies by content`)
+			}
+			this.seqEchoCounts.delete(srcIp)
+
+			if (data.length >= 2) {
+				idx = waiting.findIndex(
+					(p) => p.settingId !== undefined && data[1] === p.settingId && (p.busCh === undefined || data[0] === p.busCh),
+				)
+			}
+			if (idx < 0) idx = 0
+		}
+
+		const [entry] = waiting.splice(idx, 1)
+		if (waiting.length === 0) this.pendingAcks.delete(key)
+		return entry
+	}
+
+	/** Delay before retry number `retry` (1-based), following the policy's backoff curve. */
+	private static retryDelayFor(policy: RetryPolicy, retry: number): number {
+		let delayMs: number
+		switch (policy.backoff) {
+			case 'linear':
+				delayMs = policy.retryDelayMs * retry
+				break
+			case 'exponential':
+				delayMs = policy.retryDelayMs * 2 ** (retry - 1)
+				break
+			case 'fixed':
+			default:
+				delayMs = policy.retryDelayMs
+		}
+		return Math.min(delayMs, policy.maxRetryDelayMs)
+	}
+
 	private handleIncoming(msg: Buffer, srcIp: string) {
 		if (msg.length < 4) return
 		if (msg[0] !== 0xff || msg[1] !== 0xff) return
@@ -488,7 +1317,7 @@ export class StController {
 		// ── Dante device info response (0x0170) ──────────────────────────────
 		// These have "Audinate" at offset 16, not "Studio-T" — handle before
 		// the Studio-T signature check below.
-		if (msgType === DANTE_MSG_INFO_RESPONSE && this.discoveryListeners.size > 0) {
+		if (msgType === DANTE_MSG_INFO_RESPONSE && (this.discoveryListeners.size > 0 || this.deviceInfoCallback)) {
 			const device = parseDanteInfoResponse(msg, srcIp)
 			if (device) {
 				logger.debug(
@@ -508,6 +1337,7 @@ export class StController {
 							/* ignore */
 						}
 					}
+					this.deviceInfoCallback?.(device)
 				} else {
 					logger.debug(`Ignoring non-Studio Technologies device: DeviceID="${device.name}" @ ${srcIp}`)
 				}
@@ -527,6 +1357,20 @@ export class StController {
 		if (stPayload.length < 2) return
 		if (stPayload[0] !== 0x5a) return
 
+		// Last byte is CRC-8/DVB-S2 over everything before it — a mismatch means the
+		// packet was damaged in transit, so it must not touch state or resolve an ACK.
+		const expectedCrc = StController.crc8DvbS2(Array.from(stPayload.subarray(0, stPayload.length - 1)))
+		const receivedCrc = stPayload[stPayload.length - 1]
+		if (expectedCrc !== receivedCrc) {
+			const count = (this.corruptPackets.get(srcIp) ?? 0) + 1
+			this.corruptPackets.set(srcIp, count)
+			logger.warn(
+				`RX ${srcIp} | corrupt packet dropped (CRC ${toHex(receivedCrc)}, expected ${toHex(expectedCrc)}, ${count} so far): ${msg.toString('hex')}`,
+			)
+			this.corruptPacketCallback?.(srcIp, count)
+			return
+		}
+
 		// Device replies with cmd | 0x80
 		const respCmdId = stPayload[1]
 		const isResponse = (respCmdId & 0x80) !== 0
@@ -542,11 +1386,35 @@ export class StController {
 
 		// Only process as ACK if this is a response to our request
 		if (isResponse) {
-			const key = `${srcIp}:${originalCmdId}`
-			const pending = this.pendingAcks.get(key)
+			// A single non-zero data byte is a NACK — the device refused the command
+			const data = stPayload.subarray(2, stPayload.length - 1)
+			const nack =
+				data.length === 1 && data[0] !== STUDIO_T_STATUS_ACK
+					? new StudioTDeviceError(data[0], originalCmdId, srcIp)
+					: null
+			if (nack && originalCmdId === CMD_BUS_GET) {
+				// Keepalive refusals recur every interval — keep them out of the last-error report
+				logger.debug(nack.message)
+			} else if (nack) {
+				logger.warn(nack.message)
+				this.errorCallback?.(nack)
+			}
+
+			// An echo [busCh][settingId][value...] confirms what a verified write applied
+			if (data.length >= 3) {
+				const echo = this.pendingEchoes
+					.get(`${srcIp}:${originalCmdId}`)
+					?.find((e) => !e.applied && e.settingId === data[1] && (e.busCh === undefined || e.busCh === data[0]))
+				if (echo) {
+					echo.applied = Array.from(data.subarray(2))
+					echo.notify?.()
+				}
+			}
+
+			const pending = this.takePendingAck(srcIp, originalCmdId, msg.readUInt16BE(4), data)
 			if (pending) {
-				this.pendingAcks.delete(key)
-				pending.resolve(msg)
+				if (nack) pending.reject(nack)
+				else pending.resolve(msg)
 			}
 		}
 		// Unsolicited messages and requests from other sources are logged above
@@ -576,56 +1444,47 @@ export class StController {
 		// Parse all settings, diff against deviceState, log changed at info / unchanged at debug,
 		// then update deviceState. CMD_GET_ALL_SETTINGS also serves as the initial state population on connect.
 		if (cmdId === CMD_GET_ALL_SETTINGS || cmdId === CMD_SETTINGS_PUSH) {
-			if (!this.model) {
+			const { model, actions } = this.profileFor(srcIp)
+			if (!model) {
 				logger.info(`RX ${srcIp} | ${cmdName} | ${fullStructure}`)
 				return
 			}
 			try {
 				const settings =
-					cmdId === CMD_SETTINGS_PUSH
-						? parseSettingsResponse(this.model, msg)
-						: parseGetAllSettingsForModel(this.model, msg)
+					cmdId === CMD_SETTINGS_PUSH ? parseSettingsResponse(model, msg) : parseGetAllSettingsForModel(model, msg)
 
 				const prevState = this.deviceState.get(srcIp) ?? new Map<string, number>()
 				const newState = new Map<string, number>(prevState) // copy — update in place
+				const changes = new Map<string, number | undefined>()
 
 				for (const s of settings) {
-					const stateKey = makeSettingId(this.model, s.cmd_id, s.id, s.busCh)
-					// For RGB colors (3 bytes), pack into single number: (R << 16) | (G << 8) | B
-					const newValue =
-						s.valueBytes.length === 3
-							? (s.valueBytes[0] << 16) | (s.valueBytes[1] << 8) | s.valueBytes[2]
-							: (s.valueBytes[0] ?? 0)
+					const stateKey = makeSettingId(model, s.cmd_id, s.id, s.busCh)
+					const newValue = StController.packStateValue(s.valueBytes)
+
+					// A write to this setting is still on its way — keep showing its value and
+					// only note what the device reported, as the state to roll back to if it fails
+					const optimistic = this.optimisticWrites.get(`${srcIp}|${stateKey}`)
+					if (optimistic && optimistic.inFlight > 0) {
+						optimistic.baseline = newValue
+						logger.debug(`RX ${srcIp} | ${stateKey}=${newValue} while a write is pending — not applied`)
+						continue
+					}
+
 					const prevValue = prevState.get(stateKey)
 					const changed = prevValue === undefined || prevValue !== newValue
 
 					newState.set(stateKey, newValue)
 
-					const formatted = formatParsedSetting(s, this.actions)
+					const formatted = formatParsedSetting(s, actions)
 					if (changed) {
 						logger.info(`RX ${srcIp} | ${formatted}`)
-						// Trigger feedback update — use base key without busCh so it matches the feedback definition ID
-						if (this.feedbackCallback) {
-							let baseId = s.id
-							const baseAction = this.actions.find((a) => {
-								if (a.cmd_id !== s.cmd_id) return false
-								if (a.id === s.id) return true
-								const idAddOption = a.options?.find((o) => o.id === 'idAdd')
-								if (!idAddOption?.choices) return false
-								const offset = s.id - a.id
-								return offset > 0 && idAddOption.choices.some((c) => c.id === offset)
-							})
-							if (baseAction) baseId = baseAction.id
-							const baseFeedbackKey = makeSettingId(this.model, s.cmd_id, baseId)
-							this.feedbackCallback(baseFeedbackKey)
-						} else {
-							logger.warn(`feedbackCallback not set — skipping feedback update for ${stateKey}`)
-						}
+						this.notifySettingChanged(srcIp, s.cmd_id, s.id, stateKey, newValue, changes)
 					} else {
 						logger.debug(`RX ${srcIp} | ${formatted}`)
 					}
 				}
 				this.deviceState.set(srcIp, newState)
+				if (changes.size > 0) this.settingCallback?.(srcIp, changes)
 			} catch (e) {
 				logger.warn(`RX ${srcIp} | ${cmdName} | parse failed: ${e} | ${fullStructure}`)
 			}
@@ -633,7 +1492,7 @@ export class StController {
 		}
 
 		// ── All other commands ────────────────────────────────────────────────────
-		const decoded = this.decodeStData(cmdId, data)
+		const decoded = this.decodeStData(cmdId, data, this.profileFor(srcIp).actions)
 		// CMD_BUS_GET (keepalive) is high-frequency noise — log at debug only
 		const logFn = cmdId === CMD_BUS_GET ? logger.debug.bind(logger) : logger.info.bind(logger)
 		if (decoded) {
@@ -643,19 +1502,56 @@ export class StController {
 		}
 	}
 
+	/**
+	 * Fires the feedback of a setting whose value in deviceState changed. Uses the
+	 * base key without busCh and idAdd offset so it matches the feedback definition ID.
+	 * The setting callback gets the full state key, which identifies the channel too,
+	 * and the new value — right away, or collected into `batch` for the caller to pass
+	 * on once it has gone through a whole settings reply.
+	 */
+	private notifySettingChanged(
+		ip: string,
+		cmdId: number,
+		settingId: number,
+		stateKey: string,
+		value: number | undefined,
+		batch?: Map<string, number | undefined>,
+	): void {
+		if (batch) batch.set(stateKey, value)
+		else this.settingCallback?.(ip, new Map([[stateKey, value]]))
+
+		const { model, actions } = this.profileFor(ip)
+		if (!this.feedbackCallback) {
+			logger.warn(`feedbackCallback not set — skipping feedback update for ${makeSettingId(model, cmdId, settingId)}`)
+			return
+		}
+
+		let baseId = settingId
+		const baseAction = actions.find((a) => {
+			if (a.cmd_id !== cmdId) return false
+			if (a.id === settingId) return true
+			const idAddOption = a.options?.find((o) => o.id === 'idAdd')
+			if (!idAddOption?.choices) return false
+			const offset = settingId - a.id
+			return offset > 0 && idAddOption.choices.some((c) => c.id === offset)
+		})
+		if (baseAction) baseId = baseAction.id
+		this.feedbackCallback(makeSettingId(model, cmdId, baseId))
+	}
+
 	/**
 	 * Attempts to decode the data bytes of a Studio-T response into a
 	 * human-readable string. Returns null to fall back to raw hex.
 	 */
-	private decodeStData(cmdId: number, data: Buffer): string | null {
+	private decodeStData(cmdId: number, data: Buffer, actions: StAction[]): string | null {
 		if (data.length === 0) return 'ACK'
 
 		// ── Check for single-byte responses (ACK or error) ──────────
 		if (data.length === 1) {
-			if (data[0] === 0x00) {
+			if (data[0] === STUDIO_T_STATUS_ACK) {
 				return 'ACK ok'
 			} else {
-				return `ERROR ${toHex(data[0])}`
+				return `ERROR ${describeStudioTError(data[0])}`
 			}
 		}
 
@@ -676,13 +1572,13 @@ export class StController {
 			//   2. Echo: [busCh] [settingId] [value...]  (confirming what was applied)
 			case CMD_DEV_SPEC: {
 				if (data.length === 1) {
-					return data[0] === 0x00 ? 'ACK ok' : `ACK err=${toHex(data[0])}`
+					return data[0] === STUDIO_T_STATUS_ACK ? 'ACK ok' : `ACK err=${describeStudioTError(data[0])}`
 				}
 				if (data.length >= 3) {
 					const busCh = data[0]
 					const settingId = data[1]
 					const valueBytes = data.subarray(2)
-					const action = this.actions.find((a) => a.cmd_id === cmdId && a.id === settingId)
+					const action = actions.find((a) => a.cmd_id === cmdId && a.id === settingId)
 					const settingName = action?.name ?? `setting=${toHex(settingId)}`
 					const choices = action?.options?.[0]?.choices
 					const valueNum = valueBytes.length === 1 ? valueBytes[0] : undefined
@@ -702,7 +1598,7 @@ export class StController {
 					const busCh = data[0]
 					const settingId = data[1]
 					const valueBytes = data.subarray(2)
-					const action = this.actions.find((a) => a.cmd_id === cmdId && a.id === settingId)
+					const action = actions.find((a) => a.cmd_id === cmdId && a.id === settingId)
 					const settingName = action?.name ?? `setting=${toHex(settingId)}`
 					const valueNum = valueBytes.length === 1 ? valueBytes[0] : undefined
 					const choices = action?.options?.find((o) => o.id === 'value')?.choices
@@ -729,6 +1625,11 @@ export class StController {
 		}
 	}
 
+	/** deviceState value of a setting's bytes — RGB colors (3 bytes) pack into (R << 16) | (G << 8) | B */
+	private static packStateValue(bytes: ArrayLike<number>): number {
+		return bytes.length === 3 ? (bytes[0] << 16) | (bytes[1] << 8) | bytes[2] : (bytes[0] ?? 0)
+	}
+
 	private static buildValueBytes(value: unknown): number[] {
 		if (typeof value === 'boolean') return [value ? 1 : 0]
 		if (Array.isArray(value)) return value.map((v) => Number(v) & 0xff)
@@ -739,20 +1640,23 @@ export class StController {
 		throw new Error(`Unsupported value type for STcontroller: ${value}`)
 	}
 
-	private async buildHeader(totalLen: number, destIp: string): Promise<Buffer> {
+	private async buildHeader(totalLen: number, destIp: string, seq: number): Promise<Buffer> {
 		let mac = this.macCache.get(destIp)
 		if (!mac) {
-			mac = await getMacForDestination(destIp)
+			mac =
+				(this.localInterface ? getMacForLocalAddress(this.localInterface) : null) ??
+				(await getMacForDestination(destIp))
 			this.macCache.set(destIp, mac)
 		}
 
 		return Buffer.concat([
-			Buffer.from([0xff, 0xff, 0x00, totalLen & 0xff, 0x07, 0xe1, 0x00, 0x00, ...mac, 0x00, 0x00]),
+			Buffer.from([0xff, 0xff, 0x00, totalLen & 0xff, (seq >> 8) & 0xff, seq & 0xff, 0x00, 0x00, ...mac, 0x00, 0x00]),
 			Buffer.from('Studio-T', 'utf8'),
 		])
 	}
 
-	private static crc8DvbS2(data: number[]): number {
+	/** CRC-8/DVB-S2 (poly 0xd5) — the checksum closing every Studio-T payload. */
+	public static crc8DvbS2(data: number[]): number {
 		let crc = 0
 		for (const b of data) {
 			crc ^= b
@@ -763,6 +1667,11 @@ export class StController {
 		return crc
 	}
 
+	/** Snapshot of every known setting value for a device, keyed like makeSettingId(). */
+	public getDeviceState(ip: string): Map<string, number> {
+		return new Map(this.deviceState.get(ip))
+	}
+
 	/**
 	 * Returns the current known value for a setting on a device, or undefined if unknown.
 	 * Use for feedbacks — value is updated on every CMD_SETTINGS_PUSH (0x0b) from the device.
@@ -773,7 +1682,7 @@ export class StController {
 	 * @param busCh     Optional bus/channel ID for multi-channel commands
 	 */
 	public getSettingValue(ip: string, cmdId: number, settingId: number, busCh?: number): number | undefined {
-		const key = makeSettingId(this.model, cmdId, settingId, busCh)
+		const key = makeSettingId(this.profileFor(ip).model, cmdId, settingId, busCh)
 		return this.deviceState.get(ip)?.get(key)
 	}
 
@@ -781,6 +1690,11 @@ export class StController {
 		return this.sendAwaitAck(CMD_RESET_DEVICE, undefined, 0x00, undefined, destIp, false)
 	}
 
+	/** Sends a CMD_BUS_GET keepalive and resolves when the device answers. */
+	public async sendHeartbeat(destIp: string): Promise<Buffer> {
+		return this.sendAwaitAck(CMD_BUS_GET, undefined, undefined, undefined, destIp, false)
+	}
+
 	public async globalMicKill(destIp: string): Promise<Buffer> {
 		return this.sendAwaitAck(CMD_GLOBAL_MIC_KILL, undefined, undefined, undefined, destIp, false)
 	}
@@ -21,6 +21,26 @@ export type DeviceInfo = {
 	mac?: string
 }
 
+// ─── Retry Policy ─────────────────────────────────────────────────────────────
+/** How the delay between retries grows: constant, +delay per attempt, or doubling */
+export type RetryBackoff = 'fixed' | 'linear' | 'exponential'
+
+export type RetryPolicy = {
+	retries: number // Extra attempts after the first send (0 = never retry)
+	ackTimeoutMs: number // How long each attempt waits for the device's ACK
+	retryDelayMs: number // Delay before the first retry — scaled by backoff for later ones
+	backoff: RetryBackoff
+	maxRetryDelayMs: number // Upper bound for any single retry delay
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	retries: 2,
+	ackTimeoutMs: 2000,
+	retryDelayMs: 250,
+	backoff: 'exponential',
+	maxRetryDelayMs: 2000,
+}
+
 // ─── Studio-T Command ID Constants ────────────────────────────────────────────
 export const CMD_GET_FIRMWARE = 0x00 // Request device firmware version
 export const CMD_MIC_PRE = 0x02 // Mic preamp raw set (gain, phantom) — positional bytes, no setting IDs
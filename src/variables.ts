@@ -1,10 +1,155 @@
 import type ModuleInstance from './main.js'
+import { getDeviceSchema } from './config.js'
+import { makeSettingId, type DeviceInfo } from './types.js'
+
+/** A schema setting on one channel of one device, with a raw and a _label variable */
+interface SettingVariable {
+	stateKey: string
+	variableId: string
+	name: string
+	valueOption: any
+}
+
+/**
+ * Variable name prefix for an additional device, from its MAC so it stays the
+ * same across IP changes — e.g. dev_001dc19ba6cd for 00:1d:c1:9b:a6:cd.
+ */
+export function deviceVariablePrefix(device: DeviceInfo): string {
+	return `dev_${(device.mac ?? device.ip).toLowerCase().replace(/[^0-9a-z]/g, '')}`
+}
+
+/**
+ * Variable name prefix of the device at an IP: '' for the main device, the
+ * deviceVariablePrefix for an additional device, undefined for any other device.
+ */
+function variablePrefixForIp(self: ModuleInstance, ip: string): string | undefined {
+	if (ip === self.host) return ''
+	const extra = self.extraDevices.find((d) => d.ip === ip)
+	return extra ? deviceVariablePrefix(extra) : undefined
+}
+
+/**
+ * The ID of a per-device variable for the device at an IP — e.g. corruptPackets
+ * for the main device, dev_001dc19ba6cd_corruptPackets for an additional one.
+ * Returns undefined if the IP is neither.
+ */
+export function deviceVariableId(self: ModuleInstance, ip: string, name: string): string | undefined {
+	const prefix = variablePrefixForIp(self, ip)
+	if (prefix === undefined) return undefined
+	return prefix ? `${prefix}_${name}` : name
+}
+
+/**
+ * Every setting of the model's schema, once per busCh/idAdd combination. The
+ * variable ID is the setting's deviceState key, e.g. 391_d_13 for Audio Alert
+ * Status in Mode 2 (idAdd 11), or 23x_12_1_2 for Channel 2 phantom power —
+ * behind the device's variable prefix for an additional device.
+ */
+function settingVariables(model: string, prefix = '', label = ''): SettingVariable[] {
+	const cmdSchema: any[] = getDeviceSchema(model)?.cmdSchema ?? []
+	const variables: SettingVariable[] = []
+
+	for (const setting of cmdSchema) {
+		const options: any[] = setting.options ?? []
+		const busChOption = options.find((o) => o.id === 'busCh' && Array.isArray(o.choices))
+		const idAddOption = options.find((o) => o.id === 'idAdd' && Array.isArray(o.choices))
+
+		// A busCh without a dropdown is fixed by the schema
+		const busChs: { id: number | undefined; label?: string }[] = busChOption
+			? busChOption.choices
+			: [{ id: setting.busCh }]
+		const idAdds: { id: number; label?: string }[] = idAddOption ? idAddOption.choices : [{ id: 0 }]
+
+		for (const busCh of busChs) {
+			for (const idAdd of idAdds) {
+				const channel = [busCh.label, idAdd.label].filter((l) => l).join(', ')
+				const stateKey = makeSettingId(model, setting.cmd_id, setting.id + idAdd.id, busCh.id)
+				const name = channel ? `${setting.name} (${channel})` : setting.name
+				variables.push({
+					stateKey,
+					variableId: prefix ? `${prefix}_${stateKey}` : stateKey,
+					name: label ? `${label}: ${name}` : name,
+					valueOption: options.find((o) => o.id === 'value'),
+				})
+			}
+		}
+	}
+
+	return variables
+}
+
+/** Display text for a setting value: the choice label, Off/On, #rrggbb, or the number itself */
+function settingLabel(valueOption: any, value: number | undefined): string {
+	if (value === undefined) return ''
+	switch (valueOption?.type) {
+		case 'dropdown':
+			return String(valueOption.choices?.find((c: any) => c.id === value)?.label ?? value)
+		case 'checkbox':
+			return value ? 'On' : 'Off'
+		case 'colorpicker':
+			return `#${value.toString(16).padStart(6, '0')}`
+		default:
+			return String(value)
+	}
+}
+
+/**
+ * Setting variables defined by the last UpdateVariableDefinitions, by device
+ * variable prefix ('' for the main device) and then by state key — so each
+ * setting change is a lookup instead of a walk through the schema
+ */
+const definedSettingVariables = new WeakMap<ModuleInstance, Map<string, Map<string, SettingVariable>>>()
+
+/** Raw and label values of the given setting variables for one device's state */
+function settingValues(
+	variables: Iterable<SettingVariable>,
+	state: Map<string, number | undefined>,
+): Record<string, string | number> {
+	const values: Record<string, string | number> = {}
+	for (const variable of variables) {
+		const value = state.get(variable.stateKey)
+		values[variable.variableId] = value ?? ''
+		values[`${variable.variableId}_label`] = settingLabel(variable.valueOption, value)
+	}
+	return values
+}
 
 /**
  * Define Companion variables for this module.
  * Variables can be used to display dynamic state in button labels, triggers, etc.
  */
 export function UpdateVariableDefinitions(self: ModuleInstance): void {
+	const settingDefinitions: Record<string, { name: string }> = {}
+	const devices = new Map<string, Map<string, SettingVariable>>()
+
+	// Every setting of a device's schema, raw and as its label
+	const addSettingVariables = (prefix: string, variables: SettingVariable[]): void => {
+		const byStateKey = new Map<string, SettingVariable>()
+		for (const variable of variables) {
+			byStateKey.set(variable.stateKey, variable)
+			settingDefinitions[variable.variableId] = { name: variable.name }
+			settingDefinitions[`${variable.variableId}_label`] = { name: `${variable.name} — Label` }
+		}
+		devices.set(prefix, byStateKey)
+	}
+
+	addSettingVariables('', settingVariables(self.activeModel))
+
+	// Additional devices get the per-device subset and their own model's settings, namespaced by MAC
+	const extraDefinitions: Record<string, { name: string }> = {}
+	for (const device of self.extraDevices) {
+		const prefix = deviceVariablePrefix(device)
+		const label = `Model ${device.model} [${device.mac}]`
+		extraDefinitions[`${prefix}_model`] = { name: `${label}: Device Model Number` }
+		extraDefinitions[`${prefix}_modelName`] = { name: `${label}: Device Model Name (Full Description)` }
+		extraDefinitions[`${prefix}_firmware`] = { name: `${label}: Device Firmware Version` }
+		extraDefinitions[`${prefix}_danteFW`] = { name: `${label}: Dante Module Firmware Version` }
+		extraDefinitions[`${prefix}_mac`] = { name: `${label}: Device MAC Address` }
+		extraDefinitions[`${prefix}_ip`] = { name: `${label}: Device IP Address` }
+		extraDefinitions[`${prefix}_corruptPackets`] = { name: `${label}: Corrupt Packets Received (bad CRC)` }
+		if (device.model) addSettingVariables(prefix, settingVariables(device.model, prefix, label))
+	}
+
 	self.setVariableDefinitions({
 		model: { name: 'Device Model Number' },
 		modelName: { name: 'Device Model Name (Full Description)' },
@@ -13,7 +158,13 @@ export function UpdateVariableDefinitions(self: ModuleInstance): void {
 		danteFW: { name: 'Dante Module Firmware Version' },
 		mac: { name: 'Device MAC Address' },
 		ip: { name: 'Device IP Address' },
+		lastError: { name: 'Last Device Error' },
+		lastErrorCode: { name: 'Last Device Error Code' },
+		corruptPackets: { name: 'Corrupt Packets Received (bad CRC)' },
+		...extraDefinitions,
+		...settingDefinitions,
 	})
+	definedSettingVariables.set(self, devices)
 }
 
 const CLEARED_VARIABLES = {
@@ -24,6 +175,9 @@ const CLEARED_VARIABLES = {
 	danteFW: '',
 	mac: '',
 	ip: '',
+	lastError: '',
+	lastErrorCode: '',
+	corruptPackets: '',
 }
 
 /**
@@ -32,14 +186,19 @@ const CLEARED_VARIABLES = {
  * Clears all variables if the device is not authorized or not found.
  */
 export function UpdateVariableValues(self: ModuleInstance): void {
+	updateExtraDeviceValues(self)
+
 	const currentHost = self.host
+	const variables = definedSettingVariables.get(self)?.get('')?.values() ?? []
 
 	// Clear variables if no host configured or device is not authorized
 	if (!currentHost || !self.stController.isDeviceAuthorized(currentHost)) {
-		self.setVariableValues(CLEARED_VARIABLES)
+		self.setVariableValues({ ...CLEARED_VARIABLES, ...settingValues(variables, new Map()) })
 		return
 	}
 
+	self.setVariableValues(settingValues(variables, self.stController.getDeviceState(currentHost)))
+
 	const device = self.devices.find((d) => d.ip === currentHost)
 	if (device) {
 		self.setVariableValues({
@@ -50,6 +209,7 @@ export function UpdateVariableValues(self: ModuleInstance): void {
 			danteFW: device.danteFirmware || '',
 			mac: device.mac || '',
 			ip: device.ip,
+			corruptPackets: self.stController.getCorruptPacketCount(device.ip),
 		})
 	} else {
 		// Authorized but not in discovered list (manual IP that probed successfully)
@@ -57,6 +217,48 @@ export function UpdateVariableValues(self: ModuleInstance): void {
 		self.setVariableValues({
 			...CLEARED_VARIABLES,
 			ip: currentHost,
+			corruptPackets: self.stController.getCorruptPacketCount(currentHost),
 		})
 	}
 }
+
+/** Fills the namespaced variables of every additional device from its discovery info and settings. */
+function updateExtraDeviceValues(self: ModuleInstance): void {
+	const defined = definedSettingVariables.get(self)
+	const values: Record<string, string | number> = {}
+	for (const device of self.extraDevices) {
+		const prefix = deviceVariablePrefix(device)
+		const variables = defined?.get(prefix)?.values() ?? []
+		Object.assign(values, settingValues(variables, self.stController.getDeviceState(device.ip)))
+		values[`${prefix}_model`] = device.model || ''
+		values[`${prefix}_modelName`] = device.modelName || ''
+		values[`${prefix}_firmware`] = device.firmwareMain || ''
+		values[`${prefix}_danteFW`] = device.danteFirmware || ''
+		values[`${prefix}_mac`] = device.mac || ''
+		values[`${prefix}_ip`] = device.ip
+		values[`${prefix}_corruptPackets`] = self.stController.getCorruptPacketCount(device.ip)
+	}
+	if (Object.keys(values).length > 0) self.setVariableValues(values)
+}
+
+/**
+ * Updates the setting variables of the device at an IP after their values
+ * changed — called with the changes of one settings reply from StController's
+ * setting callback, so only the variables that actually changed are sent, in one call.
+ */
+export function UpdateSettingVariables(
+	self: ModuleInstance,
+	ip: string,
+	changes: Map<string, number | undefined>,
+): void {
+	const prefix = variablePrefixForIp(self, ip)
+	const defined = prefix === undefined ? undefined : definedSettingVariables.get(self)?.get(prefix)
+	if (!defined) return
+
+	const variables: SettingVariable[] = []
+	for (const stateKey of changes.keys()) {
+		const variable = defined.get(stateKey)
+		if (variable) variables.push(variable)
+	}
+	if (variables.length > 0) self.setVariableValues(settingValues(variables, changes))
+}